@@ -0,0 +1,270 @@
+/**
+ * useChatSessions - 多会话管理 Composable
+ * 管理聊天页中同时保留的多个会话（标签页），每个会话拥有独立的消息列表、
+ * 模型选择、待发送资源和回答状态
+ * 会话的消息以树的形式保存：编辑并重新发送历史问题时，从该问题处产生新的分支，
+ * 之前的分支保留并可切换
+ */
+import { ref, computed } from 'vue'
+import type { ChatMessageData, Resource } from '@/types/chat'
+
+/**
+ * 会话数据
+ */
+export interface ChatSession {
+  /** 会话ID（前端生成，随消息发送给后端，后端在响应中带回） */
+  id: string
+  /** 会话标题 */
+  title: string
+  /** 对应的历史会话ID（新会话由后端在回答时返回） */
+  conversationId: string
+  /** 聊天消息列表 */
+  chatList: ChatMessageData[]
+  /** 会话使用的模型名称，为空时使用后端的当前模型 */
+  modelName: string
+  /** 输入框草稿 */
+  question: string
+  /** 上一次发送的问题（↑ 键恢复） */
+  historyQuestion: string
+  /** 待发送的资源 */
+  resources: Resource[]
+  /** 正在回答的聊天ID，空字符串表示空闲 */
+  currChatId: string
+  /** 父聊天ID → 当前显示的分支（子聊天ID），未选择时显示最新的分支 */
+  branchSelection: Record<string, string>
+}
+
+/**
+ * 问答所在分支的位置
+ */
+export interface ChatBranchInfo {
+  /** 当前分支序号（从 1 开始） */
+  index: number
+  /** 同一父节点下的分支数 */
+  count: number
+}
+
+/** 会话标题最大长度 */
+const TITLE_MAX_LENGTH = 20
+
+/** 新会话默认标题 */
+export const DEFAULT_SESSION_TITLE = '新会话'
+
+/** 会话第一轮问答的父节点ID */
+export const ROOT_PARENT_ID = ''
+
+let sessionSeed = 0
+
+/**
+ * 生成会话ID
+ */
+const createSessionId = (): string => `session_${Date.now().toString(36)}_${++sessionSeed}`
+
+/**
+ * 根据问题生成会话标题
+ */
+export const createSessionTitle = (question: string): string => {
+  // 去掉代码块，只保留问题文本的第一行
+  const text = question.replace(/```[\s\S]*?```/g, '').trim().split('\n')[0] || ''
+  if (!text) return DEFAULT_SESSION_TITLE
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH)}…` : text
+}
+
+/**
+ * 清空会话的问答，之后的提问作为新的历史会话
+ */
+export const clearSession = (session: ChatSession): void => {
+  session.chatList = []
+  session.title = DEFAULT_SESSION_TITLE
+  session.conversationId = ''
+  session.branchSelection = {}
+}
+
+/**
+ * 判断会话是否正在回答
+ */
+export const isSessionAnswering = (session: ChatSession): boolean => session.currChatId !== ''
+
+/**
+ * 获取同一父节点下的所有分支（按创建顺序）
+ */
+const getSiblings = (session: ChatSession, parentId: string): ChatMessageData[] =>
+  session.chatList.filter((chat) => (chat.parentId ?? ROOT_PARENT_ID) === parentId)
+
+/**
+ * 获取会话当前显示的问答路径：从第一轮开始，每一轮取选中的分支
+ */
+export const getChatPath = (session: ChatSession): ChatMessageData[] => {
+  const path: ChatMessageData[] = []
+  let parentId = ROOT_PARENT_ID
+  for (;;) {
+    const siblings = getSiblings(session, parentId)
+    const selectedId = session.branchSelection[parentId]
+    const chat =
+      siblings.find((item) => item.chatId === selectedId) ?? siblings[siblings.length - 1]
+    if (!chat) return path
+    path.push(chat)
+    parentId = chat.chatId
+  }
+}
+
+/**
+ * 获取当前路径最后一轮问答的聊天ID，作为新问答的父节点
+ */
+export const getLastChatId = (session: ChatSession): string => {
+  const path = getChatPath(session)
+  return path[path.length - 1]?.chatId ?? ROOT_PARENT_ID
+}
+
+/**
+ * 获取问答所在分支的位置
+ */
+export const getBranchInfo = (session: ChatSession, chat: ChatMessageData): ChatBranchInfo => {
+  const siblings = getSiblings(session, chat.parentId ?? ROOT_PARENT_ID)
+  return {
+    index: siblings.findIndex((item) => item.chatId === chat.chatId) + 1,
+    count: siblings.length,
+  }
+}
+
+/**
+ * 切换到相邻的分支
+ *
+ * @param offset -1 为上一个分支，1 为下一个分支
+ */
+export const switchBranch = (session: ChatSession, chat: ChatMessageData, offset: number): void => {
+  const parentId = chat.parentId ?? ROOT_PARENT_ID
+  const siblings = getSiblings(session, parentId)
+  const target = siblings[siblings.findIndex((item) => item.chatId === chat.chatId) + offset]
+  if (target) {
+    session.branchSelection[parentId] = target.chatId
+  }
+}
+
+/**
+ * 为没有父节点信息的聊天记录（旧数据）按顺序补全父节点，视为一条没有分支的对话
+ */
+export const linkChatParents = (chats: ChatMessageData[]): void => {
+  let parentId = ROOT_PARENT_ID
+  for (const chat of chats) {
+    if (chat.parentId === undefined) {
+      chat.parentId = parentId
+    }
+    parentId = chat.chatId
+  }
+}
+
+/**
+ * 多会话管理 Composable
+ *
+ * @returns 会话列表、当前会话及会话操作方法
+ */
+export function useChatSessions() {
+  /**
+   * 创建空会话
+   */
+  const createEmptySession = (): ChatSession => ({
+    id: createSessionId(),
+    title: DEFAULT_SESSION_TITLE,
+    conversationId: '',
+    chatList: [],
+    modelName: '',
+    question: '',
+    historyQuestion: '',
+    resources: [],
+    currChatId: '',
+    branchSelection: {},
+  })
+
+  const initialSession = createEmptySession()
+  const sessions = ref<ChatSession[]>([initialSession])
+  const activeSessionId = ref(initialSession.id)
+
+  /**
+   * 当前会话（始终存在）
+   */
+  const activeSession = computed<ChatSession>(
+    () =>
+      sessions.value.find((session) => session.id === activeSessionId.value) ??
+      (sessions.value[0] as ChatSession)
+  )
+
+  /**
+   * 根据会话ID查找会话
+   */
+  const findSession = (sessionId: string): ChatSession | undefined =>
+    sessions.value.find((session) => session.id === sessionId)
+
+  /**
+   * 根据聊天ID查找所在会话
+   */
+  const findSessionByChatId = (chatId: string): ChatSession | undefined =>
+    sessions.value.find((session) => session.chatList.some((chat) => chat.chatId === chatId))
+
+  /**
+   * 根据历史会话ID查找已打开的会话
+   */
+  const findSessionByConversationId = (conversationId: string): ChatSession | undefined =>
+    sessions.value.find((session) => session.conversationId === conversationId)
+
+  /**
+   * 新建会话并切换过去
+   * 当前会话为空且未在回答时直接复用，避免产生多个空白标签
+   *
+   * @returns 新建（或复用）的会话
+   */
+  const createSession = (): ChatSession => {
+    const current = activeSession.value
+    if (current.chatList.length === 0 && !isSessionAnswering(current)) {
+      clearSession(current)
+      return current
+    }
+
+    sessions.value.push(createEmptySession())
+    // 返回响应式代理，之后的修改才能触发视图更新
+    const session = sessions.value[sessions.value.length - 1] as ChatSession
+    activeSessionId.value = session.id
+    return session
+  }
+
+  /**
+   * 切换会话
+   */
+  const switchSession = (sessionId: string): void => {
+    if (findSession(sessionId)) {
+      activeSessionId.value = sessionId
+    }
+  }
+
+  /**
+   * 关闭会话，关闭当前会话时切换到相邻会话；关闭最后一个会话时保留一个空会话
+   *
+   * @returns 被关闭的会话
+   */
+  const closeSession = (sessionId: string): ChatSession | undefined => {
+    const index = sessions.value.findIndex((session) => session.id === sessionId)
+    if (index === -1) return undefined
+
+    const [closed] = sessions.value.splice(index, 1)
+    if (sessions.value.length === 0) {
+      sessions.value.push(createEmptySession())
+    }
+    if (activeSessionId.value === sessionId) {
+      const next = sessions.value[Math.min(index, sessions.value.length - 1)] as ChatSession
+      activeSessionId.value = next.id
+    }
+    return closed
+  }
+
+  return {
+    sessions,
+    activeSessionId,
+    activeSession,
+    findSession,
+    findSessionByChatId,
+    findSessionByConversationId,
+    createSession,
+    switchSession,
+    closeSession,
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * useMessageBus - 消息订阅 Composable
+ * 通过全局消息总线按消息类型订阅后端消息，组件卸载时自动取消订阅
+ */
+import { getCurrentInstance, onBeforeUnmount } from 'vue'
+import {
+  messageBus,
+  type MessageListener,
+  type SubscribeOptions,
+  type Unsubscribe,
+} from '@/utils/messageBus'
+import type { B2FMessageType } from '@/utils/messageSchema'
+
+/**
+ * 消息订阅 Composable
+ *
+ * @returns 订阅函数 on / once，均返回取消订阅函数
+ */
+export function useMessageBus() {
+  const unsubscribes = new Set<Unsubscribe>()
+
+  /**
+   * 记录取消订阅函数，手动取消时同步移出记录
+   */
+  const track = (unsubscribe: Unsubscribe): Unsubscribe => {
+    const off = () => {
+      unsubscribe()
+      unsubscribes.delete(off)
+    }
+    unsubscribes.add(off)
+    return off
+  }
+
+  /**
+   * 订阅指定类型的消息
+   */
+  const on = <K extends B2FMessageType>(
+    type: K,
+    listener: MessageListener<K>,
+    options?: SubscribeOptions
+  ): Unsubscribe => track(messageBus.on(type, listener, options))
+
+  /**
+   * 订阅指定类型的消息，只处理一次
+   */
+  const once = <K extends B2FMessageType>(
+    type: K,
+    listener: MessageListener<K>,
+    options?: Omit<SubscribeOptions, 'once'>
+  ): Unsubscribe => track(messageBus.once(type, listener, options))
+
+  // 在组件 setup 中使用时，组件卸载前取消全部订阅
+  if (getCurrentInstance()) {
+    onBeforeUnmount(() => {
+      unsubscribes.forEach((off) => off())
+    })
+  }
+
+  return {
+    on,
+    once,
+  }
+}
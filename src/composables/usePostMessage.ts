@@ -3,6 +3,17 @@
  * 用于向前端发送消息到后端（VS Code Extension）
  */
 import { ref } from 'vue'
+import { ElMessage } from 'element-plus'
+import { HICODE_ERROR_B2F } from '@/utils/messageType'
+import { messageBus, type MessageMiddleware } from '@/utils/messageBus'
+import {
+  REQUEST_RESPONSE_TYPES,
+  type B2FMessage,
+  type F2BMessageMap,
+  type F2BMessageType,
+  type F2BRequestType,
+  type ResponseData,
+} from '@/utils/messageSchema'
 
 /**
  * 检测运行环境：VS Code
@@ -17,17 +28,48 @@ const isIntelliJ =
   typeof window.__IntelliJTools.postMessage === 'function'
 
 /**
- * 获取宿主环境的全局对象
+ * 宿主 API：接收前端发出的消息
+ */
+export interface HostApi {
+  postMessage?: (message: unknown, targetOrigin: string) => void
+}
+
+/**
+ * 浏览器调试时注册的模拟宿主
+ */
+let mockHost: HostApi | undefined
+
+/**
+ * 已获取的宿主全局对象
+ */
+let cachedGlobal: HostApi | undefined
+
+/**
+ * 注册模拟宿主，仅在没有 VS Code / IntelliJ 宿主的浏览器环境中生效
+ *
+ * @param host 模拟宿主
+ * @returns 是否已生效
  */
-function getGlobal() {
-  if (typeof getGlobal.__cached !== 'undefined') {
-    return getGlobal.__cached
+export function registerMockHost(host: HostApi): boolean {
+  if (isVsCode || isIntelliJ) {
+    return false
   }
+  mockHost = host
+  // 清除缓存，之后发送的消息改由模拟宿主接收
+  cachedGlobal = undefined
+  return true
+}
 
-  let global: {
-    postMessage?: (message: unknown, targetOrigin?: string) => void
+/**
+ * 获取宿主环境的全局对象
+ */
+function getGlobal(): HostApi {
+  if (typeof cachedGlobal !== 'undefined') {
+    return cachedGlobal
   }
 
+  let global: HostApi
+
   // VS Code 环境
   if (isVsCode) {
     global = acquireVsCodeApi()
@@ -36,6 +78,10 @@ function getGlobal() {
   else if (isIntelliJ) {
     global = window.__IntelliJTools
   }
+  // 浏览器调试：模拟宿主
+  else if (mockHost) {
+    global = mockHost
+  }
   // 其他环境（如浏览器调试）
   else if (window) {
     global = window
@@ -44,7 +90,7 @@ function getGlobal() {
   }
 
   // 缓存结果
-  getGlobal.__cached = global
+  cachedGlobal = global
   return global
 }
 
@@ -59,38 +105,219 @@ function uuid(): string {
   })
 }
 
+/**
+ * 请求失败原因：timeout-等待响应超时, host-后端返回错误, send-消息发送失败
+ */
+export type RequestErrorCode = 'timeout' | 'host' | 'send'
+
+/**
+ * 请求错误
+ * 由 request 在超时、后端返回 HICODE_ERROR_B2F 或发送失败时抛出
+ */
+export class RequestError extends Error {
+  /** 失败原因 */
+  readonly code: RequestErrorCode
+  /** 请求的消息类型 */
+  readonly messageType: string
+  /** 后端返回的操作类型（code 为 host 时存在） */
+  readonly operationType?: string
+  /** 后端返回的错误堆栈（code 为 host 时存在） */
+  readonly errorStack?: string
+
+  constructor(
+    code: RequestErrorCode,
+    messageType: string,
+    message: string,
+    detail: { operationType?: string; errorStack?: string } = {}
+  ) {
+    super(message)
+    this.name = 'RequestError'
+    this.code = code
+    this.messageType = messageType
+    this.operationType = detail.operationType
+    this.errorStack = detail.errorStack
+  }
+}
+
+/**
+ * 提示请求失败
+ * 后端错误已由 HICODE_ERROR_B2F 统一提示，这里只提示超时、发送失败等前端错误
+ */
+export const notifyRequestError = (error: unknown): void => {
+  if (error instanceof RequestError && error.code !== 'host') {
+    ElMessage({ type: 'error', message: error.message })
+  }
+}
+
+/**
+ * 请求配置
+ */
+export interface RequestOptions {
+  /** 超时时间（毫秒），为 0 时不超时，默认 10000 */
+  timeout?: number
+}
+
+/** 默认请求超时时间（毫秒） */
+const DEFAULT_REQUEST_TIMEOUT = 10000
+
+/**
+ * 等待响应的请求
+ */
+interface PendingRequest {
+  messageType: string
+  /** 期望的响应消息类型 */
+  responseType: string
+  resolve: (data: unknown) => void
+  reject: (error: RequestError) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/** 以 token 为键的待响应请求 */
+const pendingRequests = new Map<string, PendingRequest>()
+
+/** 已作为请求响应处理的消息 */
+const requestResponses = new WeakSet<B2FMessage>()
+
+/**
+ * 判断消息是否为 request() 的响应
+ * 响应仍会分发给订阅者，订阅者可据此跳过已由请求方处理的消息
+ */
+export const isRequestResponse = (message: B2FMessage): boolean => requestResponses.has(message)
+
+/** 响应中间件是否已注册 */
+let isResponseListening = false
+
+/**
+ * 响应中间件
+ * 根据 token 找到对应的请求，收到对应的响应消息时 resolve，HICODE_ERROR_B2F 时 reject，
+ * 之后继续分发给订阅者（如刷新列表、统一错误提示）
+ */
+const responseMiddleware: MessageMiddleware = async (payload, next) => {
+  const pending = payload.token ? pendingRequests.get(payload.token) : undefined
+
+  if (payload.token && pending) {
+    if (payload.message === HICODE_ERROR_B2F) {
+      const errorData = payload.data
+      settleRequest(payload.token)
+      pending.reject(
+        new RequestError('host', pending.messageType, errorData.error || '未知错误', {
+          operationType: errorData.operationType,
+          errorStack: errorData.errorStack,
+        })
+      )
+    } else if (payload.message === pending.responseType) {
+      requestResponses.add(payload)
+      settleRequest(payload.token)
+      pending.resolve(payload.data)
+    }
+  }
+
+  await next()
+}
+
+/**
+ * 结束请求：清除超时定时器并移出待响应列表
+ */
+const settleRequest = (token: string): void => {
+  const pending = pendingRequests.get(token)
+  if (pending?.timer) {
+    clearTimeout(pending.timer)
+  }
+  pendingRequests.delete(token)
+}
+
+/**
+ * 注册响应中间件（全局只注册一次）
+ * 格式错误的响应会被消息总线丢弃，请求随后按超时处理
+ */
+const ensureResponseListener = (): void => {
+  if (isResponseListening) return
+  messageBus.use(responseMiddleware)
+  isResponseListening = true
+}
+
 /**
  * 消息发送 Composable
  * 
  * @returns 消息发送函数
  */
 export function usePostMessage() {
-  const global = getGlobal()
-
   /**
-   * 向后端发送消息（不等待响应）
-   * 
-   * @param messageType 消息类型
-   * @param data 消息数据
+   * 发送消息到宿主，失败时返回 false
+   * 每次发送时获取宿主，保证注册模拟宿主前创建的 postMessage 也能发到模拟宿主
    */
-  const postMessage = (messageType: string, data: unknown = null): void => {
+  const send = (messageType: string, data: unknown, token: string): boolean => {
     try {
-      global.postMessage?.(
+      getGlobal().postMessage?.(
         {
-          token: uuid(),
+          token,
           message: messageType,
           command: messageType, // 兼容旧格式
           data,
         },
         '*'
       )
+      return true
     } catch (error) {
       console.error('发送消息失败:', error)
+      return false
     }
   }
 
+  /**
+   * 向后端发送消息（不等待响应）
+   * 
+   * @param messageType 消息类型
+   * @param data 消息数据，类型由消息注册表决定
+   */
+  const postMessage = <K extends F2BMessageType>(messageType: K, data: F2BMessageMap[K]): void => {
+    send(messageType, data, uuid())
+  }
+
+  /**
+   * 向后端发送请求并等待响应
+   * 后端需在响应消息（见 REQUEST_RESPONSE_TYPES）或错误消息（HICODE_ERROR_B2F）中原样带回请求的 token
+   * 
+   * @param messageType 消息类型
+   * @param data 消息数据，类型由消息注册表决定
+   * @param options 请求配置
+   * @returns 响应消息的 data
+   */
+  const request = <K extends F2BRequestType>(
+    messageType: K,
+    data: F2BMessageMap[K],
+    options: RequestOptions = {}
+  ): Promise<ResponseData<K>> => {
+    const { timeout = DEFAULT_REQUEST_TIMEOUT } = options
+    ensureResponseListener()
+
+    return new Promise<ResponseData<K>>((resolve, reject) => {
+      const token = uuid()
+      const pending: PendingRequest = {
+        messageType,
+        responseType: REQUEST_RESPONSE_TYPES[messageType],
+        resolve: resolve as (data: unknown) => void,
+        reject,
+      }
+
+      if (timeout > 0) {
+        pending.timer = setTimeout(() => {
+          settleRequest(token)
+          reject(new RequestError('timeout', messageType, '请求超时，请稍后重试'))
+        }, timeout)
+      }
+      pendingRequests.set(token, pending)
+
+      if (!send(messageType, data, token)) {
+        settleRequest(token)
+        reject(new RequestError('send', messageType, '发送消息失败'))
+      }
+    })
+  }
+
   return {
     postMessage,
+    request,
   }
 }
 
@@ -0,0 +1,397 @@
+/**
+ * 模拟宿主初始数据
+ * 浏览器独立调试时使用，每次刷新页面恢复初始状态
+ */
+import type { ChatMessageData, ConversationSummary, MentionItem } from '@/types/chat'
+import type {
+  ModelData,
+  PromptData,
+  SpecificationData,
+  VendorModelInfo,
+  WorkspaceConfig,
+} from '@/types/settings'
+
+/**
+ * 模拟历史会话（摘要及聊天记录）
+ */
+export interface MockConversation extends ConversationSummary {
+  messages: ChatMessageData[]
+}
+
+/**
+ * 模拟宿主状态
+ */
+export interface MockState {
+  currModel: string
+  models: ModelData[]
+  fillModel: string
+  complete: string
+  userName: string
+  password: string
+  loginStatus: boolean
+  sysPrompts: PromptData[]
+  userPrompts: PromptData[]
+  specifications: SpecificationData[]
+  /** 工作区配置文件中的模板和规范 */
+  workspaceConfig: WorkspaceConfig
+  conversations: MockConversation[]
+  /** 编辑器中打开的文件（比较、插入回答中的代码） */
+  editorFile: MockEditorFile
+  /** 工作区中的其他文件（路径相对于工作区根目录 → 内容，多文件修改） */
+  workspaceFiles: Record<string, string>
+}
+
+/**
+ * 模拟编辑器文件
+ */
+export interface MockEditorFile {
+  filePath: string
+  languageId: string
+  content: string
+  version: number
+}
+
+/** 一天的毫秒数 */
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * 生成模拟历史会话
+ */
+const createConversations = (): MockConversation[] => {
+  const now = Date.now()
+  const topics = [
+    ['数组求和优化', '如何优化 JavaScript 数组求和？'],
+    ['Vue 3 计数器', '如何用 Vue 3 实现一个响应式的计数器？'],
+    ['正则匹配文件后缀', '写一个匹配 .ts 和 .tsx 文件的正则'],
+    ['TypeScript 泛型约束', 'TypeScript 中 extends 约束怎么用？'],
+    ['Git 撤销提交', '如何撤销最近一次 git 提交但保留修改？'],
+  ]
+
+  // 生成足够多的会话以便调试分页
+  return Array.from({ length: 26 }, (_, index) => {
+    const [title = '', question = ''] = topics[index % topics.length] ?? []
+    const id = `conversation-${index + 1}`
+    const messages: ChatMessageData[] = [
+      {
+        chatId: `${id}-1`,
+        display_question: question,
+        display_answer: `这是历史会话「${title}」的模拟回答。`,
+        model_name: index % 2 === 0 ? 'glm-4.5' : 'deepseek-chat',
+        status: 'finished',
+      },
+    ]
+    return {
+      id,
+      title: index < topics.length ? title : `${title} #${index + 1}`,
+      modelName: messages[0]?.model_name,
+      updateTime: now - index * DAY * 0.7,
+      messageCount: messages.length,
+      pinned: index === 3,
+      messages,
+    }
+  })
+}
+
+/**
+ * 创建初始状态（每次返回新的副本，避免多个模拟宿主共享数据）
+ */
+export const createMockState = (): MockState => ({
+  currModel: 'glm-4.5',
+  models: [
+    {
+      id: 'model-1',
+      modelId: 'model-1',
+      modelName: 'glm-4.5',
+      displayName: '智谱AI-4.5',
+      maxContextTokens: 128000,
+      supportMultimodal: false,
+      vendor: 'zhipuai',
+      modelDescription: '智谱通用对话模型',
+      apiKey: 'mock-api-key',
+      apiBaseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+    },
+    {
+      id: 'model-2',
+      modelId: 'model-2',
+      modelName: 'deepseek-chat',
+      displayName: 'DeepSeek-V3',
+      maxContextTokens: 64000,
+      supportMultimodal: false,
+      vendor: 'deepseek',
+      modelDescription: 'DeepSeek 对话模型',
+      apiKey: 'mock-api-key',
+      apiBaseUrl: 'https://api.deepseek.com',
+    },
+    {
+      id: 'model-3',
+      modelId: 'model-3',
+      modelName: 'gpt-4o',
+      displayName: 'GPT-4o',
+      maxContextTokens: 128000,
+      supportMultimodal: true,
+      vendor: 'openai',
+      modelDescription: 'OpenAI 多模态模型',
+      apiKey: 'mock-api-key',
+      apiBaseUrl: 'https://api.openai.com/v1',
+    },
+    {
+      id: 'model-4',
+      modelId: 'model-4',
+      modelName: 'qwen2.5-coder:7b',
+      displayName: '本地 Qwen2.5 Coder',
+      maxContextTokens: 32768,
+      supportMultimodal: false,
+      supportStreaming: true,
+      supportToolCalls: false,
+      vendor: 'custom',
+      modelDescription: '本地 Ollama 服务',
+      apiBaseUrl: 'http://localhost:11434',
+      apiFormat: 'ollama',
+      authStyle: 'none',
+      extraHeaders: {},
+    },
+  ],
+  fillModel: 'deepseek-chat',
+  complete: 'auto',
+  userName: '',
+  password: '',
+  loginStatus: false,
+  sysPrompts: [
+    {
+      id: 'sys-explain',
+      title: '解释代码',
+      prompt: '请解释以下代码的功能：\n{{selection}}',
+      model: '',
+      isSystemPrompt: true,
+    },
+    {
+      id: 'sys-test',
+      title: '生成单元测试',
+      prompt: '请为以下代码生成单元测试：\n{{selection}}',
+      model: '',
+      isSystemPrompt: true,
+    },
+    {
+      id: 'sys-migrate',
+      title: '迁移框架',
+      prompt: '请将以下 {{language}} 代码迁移到 {{input:目标框架}}：\n{{selection}}',
+      model: '',
+      isSystemPrompt: true,
+    },
+  ],
+  userPrompts: [
+    {
+      id: 'user-review',
+      title: '代码评审',
+      prompt: '请从可读性、性能和安全性角度评审以下代码：\n{{selection}}',
+      modelParams: '{\n  "temperature": 0.3,\n  "max_tokens": 2048\n}',
+      model: 'glm-4.5',
+      isSystemPrompt: false,
+    },
+  ],
+  specifications: [
+    {
+      id: 'spec-ts',
+      name: 'TypeScript 规范',
+      regex: '.*\\.tsx?$',
+      content: '使用严格类型，避免 any。',
+      action: 'append',
+      state: true,
+    },
+    {
+      id: 'spec-vue',
+      name: 'Vue 组件规范',
+      regex: '.*\\.vue$',
+      content: '使用 <script setup lang="ts"> 与组合式 API。',
+      action: 'append',
+      state: false,
+    },
+  ],
+  workspaceConfig: {
+    configPath: '.hicode/config.json',
+    prompts: [
+      {
+        id: 'ws-review',
+        title: '代码评审',
+        prompt: '请按团队评审清单（命名、错误处理、测试覆盖）评审以下代码：\n{{selection}}',
+        model: '',
+      },
+    ],
+    specifications: [
+      {
+        id: 'ws-spec-ts',
+        name: 'TypeScript 规范',
+        regex: '.*\\.tsx?$',
+        content: '使用严格类型，避免 any；公共函数写明返回类型。',
+        action: 'append',
+        state: true,
+      },
+      {
+        id: 'ws-spec-js',
+        name: 'JavaScript 规范',
+        regex: '\\.js$',
+        content: '使用 CommonJS 模块，函数使用 JSDoc 注释。',
+        action: 'append',
+        state: true,
+      },
+    ],
+  },
+  conversations: createConversations(),
+  editorFile: {
+    filePath: '/workspace/src/utils/math.js',
+    languageId: 'javascript',
+    content: [
+      '// 计算数组之和',
+      'function calculateSum(arr) {',
+      '  let sum = 0',
+      '  for (let i = 0; i < arr.length; i++) {',
+      '    sum += arr[i]',
+      '  }',
+      '  return sum',
+      '}',
+      '',
+      'module.exports = { calculateSum }',
+      '',
+    ].join('\n'),
+    version: 1,
+  },
+  workspaceFiles: {
+    'src/index.js': [
+      "const { calculateSum } = require('./utils/math')",
+      '',
+      'console.log(calculateSum([1, 2, 3]))',
+      '',
+    ].join('\n'),
+  },
+})
+
+/**
+ * 模拟各厂商接口返回的可用模型
+ */
+export const MOCK_VENDOR_MODELS: Record<string, VendorModelInfo[]> = {
+  zhipuai: [
+    { id: 'glm-4.5', ownedBy: 'zhipuai', contextLength: 128000 },
+    { id: 'glm-4.5-air', ownedBy: 'zhipuai', contextLength: 128000 },
+    { id: 'glm-4v-plus', ownedBy: 'zhipuai', contextLength: 8192 },
+  ],
+  deepseek: [
+    { id: 'deepseek-chat', ownedBy: 'deepseek', contextLength: 64000 },
+    { id: 'deepseek-reasoner', ownedBy: 'deepseek', contextLength: 64000 },
+  ],
+  openai: [
+    { id: 'gpt-4o', ownedBy: 'openai', contextLength: 128000 },
+    { id: 'gpt-4o-mini', ownedBy: 'openai', contextLength: 128000 },
+    { id: 'o3-mini', ownedBy: 'openai', contextLength: 200000 },
+  ],
+  qwen: [
+    { id: 'qwen-max', ownedBy: 'qwen', contextLength: 32768 },
+    { id: 'qwen-plus', ownedBy: 'qwen', contextLength: 131072 },
+    { id: 'qwen-coder-plus', ownedBy: 'qwen', contextLength: 131072 },
+  ],
+  custom: [
+    { id: 'qwen2.5-coder:7b', ownedBy: 'library', contextLength: 32768 },
+    { id: 'llama3.1:8b', ownedBy: 'library', contextLength: 131072 },
+  ],
+}
+
+/**
+ * 模拟可 @引用的上下文
+ */
+export const MOCK_MENTIONS: MentionItem[] = [
+  {
+    id: 'open:/workspace/src/main.ts',
+    kind: 'openFile',
+    label: 'main.ts',
+    description: 'src',
+    filePath: '/workspace/src/main.ts',
+  },
+  {
+    id: 'open:/workspace/src/App.vue',
+    kind: 'openFile',
+    label: 'App.vue',
+    description: 'src',
+    filePath: '/workspace/src/App.vue',
+  },
+  {
+    id: 'file:/workspace/src/utils/request.ts',
+    kind: 'file',
+    label: 'request.ts',
+    description: 'src/utils',
+    filePath: '/workspace/src/utils/request.ts',
+  },
+  {
+    id: 'file:/workspace/package.json',
+    kind: 'file',
+    label: 'package.json',
+    filePath: '/workspace/package.json',
+  },
+  {
+    id: 'symbol:calculateSum',
+    kind: 'symbol',
+    label: 'calculateSum',
+    description: '函数 · src/utils/math.ts',
+    filePath: '/workspace/src/utils/math.ts',
+  },
+  {
+    id: 'symbol:UserService',
+    kind: 'symbol',
+    label: 'UserService',
+    description: '类 · src/services/user.ts',
+    filePath: '/workspace/src/services/user.ts',
+  },
+  { id: 'git:diff', kind: 'gitDiff', label: '未提交的变更', description: '3 个文件' },
+  { id: 'terminal:active', kind: 'terminal', label: '终端输出', description: 'zsh' },
+  { id: 'problems:all', kind: 'problems', label: '问题列表', description: '2 个错误，1 个警告' },
+]
+
+/**
+ * 模拟应用附加规范前的基础系统提示词
+ */
+export const MOCK_SYSTEM_PROMPT = '你是一名资深软件工程师，回答简洁准确，代码给出完整可运行的示例。'
+
+/**
+ * 模拟回答（Markdown，包含代码块以便调试代码按钮和高亮）
+ */
+export const MOCK_ANSWER = `这是模拟宿主返回的回答，用于在浏览器中调试聊天界面。
+
+下面的函数使用 \`reduce\` 计算数组之和：
+
+\`\`\`javascript
+function calculateSum(arr) {
+  return arr.reduce((sum, num) => sum + num, 0)
+}
+\`\`\`
+
+**说明：**
+1. \`reduce\` 的第二个参数是初始值
+2. 空数组时返回 \`0\`
+
+| 写法 | 可读性 |
+| --- | --- |
+| for 循环 | 一般 |
+| reduce | 较好 |
+
+改用 \`reduce\` 并新增平均值计算，涉及以下文件：
+
+\`src/utils/math.js\`
+
+\`\`\`javascript
+// 计算数组之和
+function calculateSum(arr) {
+  return arr.reduce((sum, num) => sum + num, 0)
+}
+
+module.exports = { calculateSum }
+\`\`\`
+
+\`\`\`javascript title="src/utils/average.js"
+const { calculateSum } = require('./math')
+
+// 计算数组的平均值
+function calculateAverage(arr) {
+  return arr.length === 0 ? 0 : calculateSum(arr) / arr.length
+}
+
+module.exports = { calculateAverage }
+\`\`\`
+`
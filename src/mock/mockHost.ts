@@ -0,0 +1,769 @@
+/**
+ * 模拟宿主
+ * 在浏览器中独立运行页面（vite --mode chat / settings）时代替 VS Code 插件端响应前端消息，
+ * 响应通过 window.postMessage 发回，与真实宿主一样经消息总线分发
+ */
+import * as OP from '@/utils/messageType'
+import { registerMockHost, type HostApi } from '@/composables/usePostMessage'
+import type {
+  B2FMessageMap,
+  B2FMessageType,
+  F2BMessageMap,
+  F2BMessageType,
+} from '@/utils/messageSchema'
+import type { ModelData, PromptData } from '@/types/settings'
+import { fuzzyMatch } from '@/utils/fuzzyMatch'
+import { renderPrompt } from '@/utils/promptTemplate'
+import { stripModelSecrets } from '@/utils/secret'
+import { toWorkspaceItems } from '@/utils/configScope'
+import { estimateTokens } from '@/utils/tokenEstimate'
+import {
+  createMockState,
+  MOCK_ANSWER,
+  MOCK_SYSTEM_PROMPT,
+  MOCK_MENTIONS,
+  MOCK_VENDOR_MODELS,
+  type MockState,
+} from './mockData'
+import { getScenarioName, resolveScenario, MOCK_OFF, type MockScenario } from './scenarios'
+
+/**
+ * 消息处理函数
+ */
+type MockHandlers = {
+  [K in F2BMessageType]?: (data: F2BMessageMap[K], token?: string) => void
+}
+
+/**
+ * 模拟宿主
+ */
+export interface MockHost extends HostApi {
+  /** 当前场景 */
+  scenario: MockScenario
+  /** 当前状态 */
+  state: MockState
+  /** 主动向前端发送消息（可在控制台调用，如模拟代码选择变化） */
+  emit: <K extends B2FMessageType>(message: K, data: B2FMessageMap[K]) => void
+}
+
+const DONE_FLAG = '[DONE]'
+
+let idSeed = 0
+
+/**
+ * 生成模拟 ID
+ */
+const createId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${++idSeed}`
+
+/**
+ * 创建模拟宿主
+ *
+ * @param scenario 场景配置
+ * @param state 初始状态
+ */
+export function createMockHost(scenario: MockScenario, state: MockState = createMockState()): MockHost {
+  /**
+   * 延迟后向前端发送消息，请求的 token 原样带回
+   *
+   * @returns 定时器，用于取消尚未发送的消息
+   */
+  const reply = <K extends B2FMessageType>(
+    message: K,
+    data: B2FMessageMap[K],
+    token?: string,
+    delay = scenario.latency
+  ): ReturnType<typeof setTimeout> =>
+    setTimeout(() => {
+      window.postMessage({ token, message, data }, '*')
+    }, delay)
+
+  /**
+   * 返回错误消息
+   */
+  const fail = (operationType: string, error: string, token?: string): void => {
+    reply(OP.HICODE_ERROR_B2F, { operationType, error, errorStack: `MockHostError: ${error}` }, token)
+  }
+
+  /** 会话ID → 历史会话ID */
+  const sessionConversations = new Map<string, string>()
+
+  /**
+   * 将问答记录到会话对应的历史会话中，会话首次提问时新建历史会话
+   *
+   * @returns 历史会话ID
+   */
+  const recordChat = (
+    sessionId: string | undefined,
+    chat: {
+      chatId: string
+      question: string
+      answer: string
+      modelName?: string
+      parentId?: string
+    },
+    conversationId?: string
+  ): string | undefined => {
+    if (!sessionId) return undefined
+
+    let conversation = state.conversations.find(
+      (item) => item.id === (conversationId || sessionConversations.get(sessionId))
+    )
+    if (!conversation) {
+      conversation = {
+        id: createId('conversation'),
+        title: chat.question.split('\n')[0]?.slice(0, 30) || '新会话',
+        updateTime: Date.now(),
+        messageCount: 0,
+        messages: [],
+      }
+      state.conversations.push(conversation)
+      sessionConversations.set(sessionId, conversation.id)
+    }
+
+    const modelName = chat.modelName || state.currModel
+    conversation.messages.push({
+      chatId: chat.chatId,
+      // 未指定父节点时接在最后一轮之后
+      parentId: chat.parentId ?? conversation.messages[conversation.messages.length - 1]?.chatId ?? '',
+      display_question: chat.question,
+      display_answer: chat.answer,
+      model_name: modelName,
+      status: 'finished',
+    })
+    conversation.modelName = modelName
+    conversation.messageCount = conversation.messages.length
+    conversation.updateTime = Date.now()
+    return conversation.id
+  }
+
+  /** 聊天ID → 正在流式返回的回答（未发送分片的定时器及已发送的内容） */
+  const streams = new Map<string, { timers: ReturnType<typeof setTimeout>[]; sent: string }>()
+
+  /**
+   * 按场景配置分片流式返回回答，以 [DONE] 结束，结束标记附带用量统计
+   *
+   * @param question 用于估算输入 Token 的问题（重新回答时为原问题）
+   */
+  const streamAnswer = (
+    chatId: string,
+    answer: string,
+    route: { sessionId?: string; conversationId?: string } = {},
+    question = ''
+  ): void => {
+    const startTime = Date.now()
+    const chunks: string[] = []
+    for (let index = 0; index < answer.length; index += scenario.chunkSize) {
+      chunks.push(answer.slice(index, index + scenario.chunkSize))
+    }
+    chunks.push(DONE_FLAG)
+
+    const stream = { timers: [] as ReturnType<typeof setTimeout>[], sent: '' }
+    stream.timers = chunks.map((text, index) =>
+      setTimeout(
+        () => {
+          const data: B2FMessageMap[typeof OP.HICODE_ASK_QUESTION_B2F_RES] = {
+            chatId,
+            text,
+            ...route,
+          }
+          if (text === DONE_FLAG) {
+            streams.delete(chatId)
+            data.usage = {
+              promptTokens: estimateTokens(MOCK_SYSTEM_PROMPT) + estimateTokens(question),
+              completionTokens: estimateTokens(answer),
+              latency: Date.now() - startTime,
+            }
+          } else {
+            stream.sent += text
+          }
+          window.postMessage({ message: OP.HICODE_ASK_QUESTION_B2F_RES, data }, '*')
+        },
+        scenario.latency + index * scenario.chunkInterval
+      )
+    )
+    streams.set(chatId, stream)
+  }
+
+  /**
+   * 中止流式回答，历史记录中只保留已发送的内容
+   *
+   * @returns 是否中止了正在进行的回答
+   */
+  const stopStream = (chatId: string): boolean => {
+    const stream = streams.get(chatId)
+    if (!stream) return false
+
+    stream.timers.forEach((timer) => clearTimeout(timer))
+    streams.delete(chatId)
+    for (const conversation of state.conversations) {
+      const chat = conversation.messages.find((item) => item.chatId === chatId)
+      if (chat) {
+        chat.display_answer = stream.sent
+        chat.status = 'break'
+      }
+    }
+    return true
+  }
+
+  /**
+   * 场景中配置为失败的消息返回错误，返回 true 表示已处理
+   */
+  const shouldFail = (messageType: F2BMessageType, operationType: string, token?: string): boolean => {
+    if (!scenario.failingTypes.includes(messageType)) {
+      return false
+    }
+    fail(operationType, `模拟${operationType}失败`, token)
+    return true
+  }
+
+  /**
+   * 解析导入的 JSON 数组
+   */
+  const parseImport = <T>(value: string): T[] | null => {
+    try {
+      const parsed: unknown = JSON.parse(value)
+      return Array.isArray(parsed) ? (parsed as T[]) : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * 获取编辑器文件中的行（行号从 1 开始，包含结束行）
+   */
+  const getEditorLines = (startLine: number, endLine: number): string[] =>
+    state.editorFile.content.split('\n').slice(startLine - 1, endLine)
+
+  /**
+   * 判断是否为编辑器中打开的文件（路径相对于工作区根目录）
+   */
+  const isEditorFile = (filePath: string): boolean =>
+    `/workspace/${filePath}` === state.editorFile.filePath
+
+  /**
+   * 读取工作区文件，文件不存在时返回 undefined
+   */
+  const readWorkspaceFile = (filePath: string): string | undefined =>
+    isEditorFile(filePath) ? state.editorFile.content : state.workspaceFiles[filePath]
+
+  /**
+   * 写入工作区文件，content 为 undefined 时删除文件
+   */
+  const writeWorkspaceFile = (filePath: string, content: string | undefined): void => {
+    if (isEditorFile(filePath)) {
+      state.editorFile.content = content ?? ''
+      state.editorFile.version++
+    } else if (content === undefined) {
+      delete state.workspaceFiles[filePath]
+    } else {
+      state.workspaceFiles[filePath] = content
+    }
+  }
+
+  /** 撤销标识 → 多文件修改前的文件内容（undefined 表示新建的文件） */
+  const changeSetBackups = new Map<string, Array<{ filePath: string; content?: string }>>()
+
+  /**
+   * 保存导入项：带标识的项覆盖已有项，其余新增
+   */
+  const mergeImported = <T>(
+    list: T[],
+    items: T[],
+    getId: (item: T) => string | undefined,
+    create: (item: T) => T
+  ): T[] => {
+    const result = [...list]
+    items.forEach((item) => {
+      const index = result.findIndex((current) => getId(current) === getId(item))
+      if (getId(item) && index >= 0) {
+        result[index] = item
+      } else {
+        result.push(create(item))
+      }
+    })
+    return result
+  }
+
+  /**
+   * 转换为聊天页的模板列表项
+   */
+  const toPromptItems = (prompts: PromptData[]) =>
+    prompts.map((item) => ({ ...item, id: item.id ?? '' }))
+
+  /**
+   * 根据模板生成问题并返回回答
+   */
+  const answerPrompt = (
+    prompts: PromptData[],
+    data: F2BMessageMap[typeof OP.HICODE_SYS_PROMPT_F2B_REQ],
+    responseType: typeof OP.HICODE_SYS_PROMPT_B2F_RES | typeof OP.HICODE_USER_PROMPT_B2F_RES
+  ): void => {
+    const prompt = prompts.find((item) => item.id === data.promptId)
+    if (!prompt) {
+      fail('模板提问', '模板不存在')
+      return
+    }
+
+    const chatId = createId('chat')
+    const variables = { ...data.variables, selection: `\n\`\`\`\n${data.code}\n\`\`\`\n` }
+    const question = renderPrompt(prompt.prompt, variables)
+    const { sessionId, modelName, parentChatId } = data
+    const conversationId = recordChat(sessionId, {
+      chatId,
+      question,
+      answer: MOCK_ANSWER,
+      modelName,
+      parentId: parentChatId,
+    })
+    reply(responseType, { question, chatId, sessionId, parentChatId })
+    streamAnswer(chatId, MOCK_ANSWER, { sessionId, conversationId }, question)
+  }
+
+  /**
+   * 发给前端的模型配置：与真实插件端一样不含 API Key，只有是否已保存和掩码提示
+   */
+  const getPublicModels = (): ModelData[] => state.models.map(stripModelSecrets)
+
+  /**
+   * 测试连接等请求未重新输入 API Key 时，使用已保存的 API Key
+   */
+  const getApiKey = (data: ModelData): string =>
+    data.apiKey || state.models.find((item) => item.modelId === data.modelId)?.apiKey || ''
+
+  const handlers: MockHandlers = {
+    // ========== 聊天 ==========
+    [OP.HICODE_GET_MODELS_F2B_REQ]: (_data, token) => {
+      reply(
+        OP.HICODE_GET_MODELS_B2F_RES,
+        { currModel: state.currModel, modelOptions: getPublicModels().map((item) => ({ ...item })) },
+        token
+      )
+    },
+    [OP.HICODE_CHANGE_MODEL_F2B_REQ]: (data) => {
+      state.currModel = data.modelName
+    },
+    [OP.HICODE_GET_PROMPTS_F2B_REQ]: (_data, token) => {
+      reply(
+        OP.HICODE_GET_PROMPTS_B2F_RES,
+        { sysPrompts: toPromptItems(state.sysPrompts), userPrompts: toPromptItems(state.userPrompts) },
+        token
+      )
+    },
+    [OP.HICODE_SEND_MESSAGE_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_SEND_MESSAGE_F2B_REQ, '问答', token)) return
+      const { chatId, sessionId, modelName, parentChatId } = data
+      const conversationId = recordChat(
+        sessionId,
+        { chatId, question: data.message, answer: MOCK_ANSWER, modelName, parentId: parentChatId },
+        data.conversationId
+      )
+      streamAnswer(chatId, MOCK_ANSWER, { sessionId, conversationId }, data.message)
+    },
+    [OP.HICODE_REANSWER_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_REANSWER_F2B_REQ, '重新回答', token)) return
+      streamAnswer(data.chatId, MOCK_ANSWER, {}, data.question)
+    },
+    [OP.HICODE_STOP_ANSWER_F2B_REQ]: (data, token) => {
+      reply(OP.HICODE_STOP_ANSWER_B2F_RES, { chatId: data.chatId, stopped: stopStream(data.chatId) }, token)
+    },
+    [OP.HICODE_SYS_PROMPT_F2B_REQ]: (data) => {
+      answerPrompt(state.sysPrompts, data, OP.HICODE_SYS_PROMPT_B2F_RES)
+    },
+    [OP.HICODE_USER_PROMPT_F2B_REQ]: (data) => {
+      answerPrompt(state.userPrompts, data, OP.HICODE_USER_PROMPT_B2F_RES)
+    },
+    [OP.HICODE_INSERT_CODE_F2B_REQ]: () => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'info', message: '已模拟插入代码' })
+    },
+    [OP.HICODE_OPEN_LINK_F2B]: (data) => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'info', message: `已模拟打开链接：${data.url}` })
+    },
+    [OP.HICODE_ATTACH_FILES_F2B_REQ]: (data, token) => {
+      // 未指定路径时模拟用户在文件选择器中选择了一个文件
+      const paths = data.paths?.length ? data.paths : ['/workspace/src/main.ts']
+      const files = paths.map((filePath) => ({
+        type: 'file' as const,
+        name: filePath.split(/[\\/]/).pop() || filePath,
+        filePath,
+        content: `// 模拟文件内容：${filePath}\nexport {}\n`,
+        languageId: 'typescript',
+      }))
+      reply(OP.HICODE_ATTACH_FILES_B2F_RES, { files }, token)
+    },
+    [OP.HICODE_SEARCH_MENTIONS_F2B_REQ]: (data, token) => {
+      const items = MOCK_MENTIONS.filter(
+        (item) =>
+          fuzzyMatch(data.query, item.label) || fuzzyMatch(data.query, item.filePath || '')
+      ).slice(0, data.limit)
+      reply(OP.HICODE_SEARCH_MENTIONS_B2F_RES, { items }, token)
+    },
+    [OP.HICODE_COMPARE_ANSWER_F2B_REQ]: () => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'info', message: '已模拟打开代码比较' })
+    },
+    [OP.HICODE_GET_CODE_TARGET_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_GET_CODE_TARGET_F2B_REQ, '获取比较代码', token)) return
+      // 比较时模拟选中了第 2~8 行的函数，插入时模拟光标在第 9 行的空行
+      const { filePath, languageId, version } = state.editorFile
+      const [startLine, endLine] = data.mode === 'replace' ? [2, 8] : [9, 8]
+      const content = getEditorLines(startLine, endLine).join('\n')
+      reply(
+        OP.HICODE_GET_CODE_TARGET_B2F_RES,
+        { filePath, languageId, startLine, endLine, content, version },
+        token
+      )
+    },
+    [OP.HICODE_APPLY_CODE_EDIT_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_APPLY_CODE_EDIT_F2B_REQ, '应用代码修改', token)) return
+      const { target } = data
+      const file = state.editorFile
+      if (target.version !== file.version) {
+        const message = '文件已被修改，请重新比较'
+        reply(OP.HICODE_APPLY_CODE_EDIT_B2F_RES, { applied: false, message }, token)
+        return
+      }
+      const lines = file.content.split('\n')
+      const count = target.endLine - target.startLine + 1
+      lines.splice(target.startLine - 1, count, ...data.content.split('\n'))
+      file.content = lines.join('\n')
+      file.version++
+      reply(OP.HICODE_APPLY_CODE_EDIT_B2F_RES, { applied: true }, token)
+    },
+    [OP.HICODE_GET_FILE_STATUS_F2B_REQ]: (data, token) => {
+      const files = data.paths.map((filePath) => ({
+        filePath,
+        exists: readWorkspaceFile(filePath) !== undefined,
+      }))
+      reply(OP.HICODE_GET_FILE_STATUS_B2F_RES, { files }, token)
+    },
+    [OP.HICODE_APPLY_CHANGE_SET_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_APPLY_CHANGE_SET_F2B_REQ, '应用多文件修改', token)) return
+      const backups: Array<{ filePath: string; content?: string }> = []
+      const results = data.changes.map(({ filePath, content }) => {
+        // 模拟插件端拒绝写入工作区外的文件
+        if (filePath.startsWith('/')) {
+          return { filePath, applied: false, message: '只能写入工作区内的文件' }
+        }
+        backups.push({ filePath, content: readWorkspaceFile(filePath) })
+        writeWorkspaceFile(filePath, content)
+        return { filePath, applied: true }
+      })
+      const undoId = backups.length > 0 ? createId('undo') : undefined
+      if (undoId) changeSetBackups.set(undoId, backups)
+      reply(OP.HICODE_APPLY_CHANGE_SET_B2F_RES, { results, undoId }, token)
+    },
+    [OP.HICODE_UNDO_CHANGE_SET_F2B_REQ]: (data, token) => {
+      const backups = changeSetBackups.get(data.undoId)
+      if (!backups) {
+        const message = '撤销记录已失效'
+        reply(OP.HICODE_UNDO_CHANGE_SET_B2F_RES, { undone: false, message }, token)
+        return
+      }
+      backups.forEach(({ filePath, content }) => writeWorkspaceFile(filePath, content))
+      changeSetBackups.delete(data.undoId)
+      reply(OP.HICODE_UNDO_CHANGE_SET_B2F_RES, { undone: true }, token)
+    },
+
+    // ========== 历史会话 ==========
+    [OP.HICODE_GET_HISTORY_F2B_REQ]: (data, token) => {
+      const keyword = (data.keyword || '').toLowerCase()
+      const matched = state.conversations
+        .filter(
+          (item) =>
+            !keyword ||
+            item.title.toLowerCase().includes(keyword) ||
+            item.messages.some((message) =>
+              `${message.display_question} ${message.display_answer}`.toLowerCase().includes(keyword)
+            )
+        )
+        .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updateTime - a.updateTime)
+      const start = (data.page - 1) * data.pageSize
+      const items = matched
+        .slice(start, start + data.pageSize)
+        .map(({ messages: _messages, ...summary }) => summary)
+      reply(
+        OP.HICODE_GET_HISTORY_B2F_RES,
+        { items, total: matched.length, page: data.page, pageSize: data.pageSize },
+        token
+      )
+    },
+    [OP.HICODE_OPEN_HISTORY_CHAT_F2B_REQ]: (data, token) => {
+      const conversation = state.conversations.find((item) => item.id === data.conversationId)
+      if (!conversation) {
+        fail('打开会话', '会话不存在', token)
+        return
+      }
+      reply(
+        OP.HICODE_GET_HIS_CHAT_BY_ID_B2F_RES,
+        conversation.messages.map((message) => ({ ...message })),
+        token
+      )
+    },
+    [OP.HICODE_RENAME_HISTORY_F2B_REQ]: (data, token) => {
+      const conversation = state.conversations.find((item) => item.id === data.conversationId)
+      if (conversation) {
+        conversation.title = data.title
+      }
+      reply(OP.HICODE_REFRESH_HISTORY_B2F_RES, { type: 'rename', conversationId: data.conversationId }, token)
+    },
+    [OP.HICODE_DELETE_HISTORY_F2B_REQ]: (data, token) => {
+      state.conversations = state.conversations.filter((item) => item.id !== data.conversationId)
+      reply(OP.HICODE_REFRESH_HISTORY_B2F_RES, { type: 'delete', conversationId: data.conversationId }, token)
+    },
+    [OP.HICODE_PIN_HISTORY_F2B_REQ]: (data, token) => {
+      const conversation = state.conversations.find((item) => item.id === data.conversationId)
+      if (conversation) {
+        conversation.pinned = data.pinned
+      }
+      reply(OP.HICODE_REFRESH_HISTORY_B2F_RES, { type: 'pin', conversationId: data.conversationId }, token)
+    },
+
+    // ========== 设置 ==========
+    [OP.HICODE_GET_SETTINGS_F2B_REQ]: (_data, token) => {
+      reply(
+        OP.HICODE_GET_SETTINGS_B2F_RES,
+        {
+          userName: state.userName,
+          hasPassword: !!state.password,
+          loginStatus: state.loginStatus,
+          modelOptions: getPublicModels(),
+          fillModel: state.fillModel,
+          complete: state.complete,
+          prompts: [...state.sysPrompts, ...state.userPrompts],
+          specifications: state.specifications,
+        },
+        token
+      )
+    },
+    [OP.HICODE_LOGIN_F2B_REQ]: (data, token) => {
+      if (scenario.loginFails) {
+        reply(OP.HICODE_LOGIN_B2F_RES, { status: false, message: '用户名或密码错误（模拟）' }, token)
+        return
+      }
+      state.userName = data.userName
+      state.password = data.password
+      state.loginStatus = true
+      reply(OP.HICODE_LOGIN_B2F_RES, { status: true, message: '登录成功（模拟）' }, token)
+    },
+    [OP.HICODE_CHANGE_FILL_MODEL_F2B_REQ]: (data) => {
+      state.fillModel = data.value
+    },
+    [OP.HICODE_CHANGE_COMPLETE_F2B_REQ]: (data) => {
+      state.complete = data.value
+    },
+
+    // ========== 模型配置 ==========
+    [OP.HICODE_TEST_MODEL_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_TEST_MODEL_F2B_REQ, '测试连接', token)) return
+      // API Key 含 invalid 时模拟认证失败，Base URL 不是 http(s) 地址时模拟网络错误
+      const modelInfo = MOCK_VENDOR_MODELS[data.vendor]?.find((item) => item.id === data.modelName)
+      const latency = 200 + Math.round(Math.random() * 600)
+      let result: B2FMessageMap[typeof OP.HICODE_TEST_MODEL_B2F_RES]
+      if (getApiKey(data).includes('invalid')) {
+        result = { success: false, latency, errorType: 'auth', message: '401 Unauthorized: invalid api key' }
+      } else if (data.apiBaseUrl && !/^https?:\/\//.test(data.apiBaseUrl)) {
+        result = { success: false, errorType: 'network', message: `getaddrinfo ENOTFOUND ${data.apiBaseUrl}` }
+      } else if (!modelInfo) {
+        const message = `404 The model ${data.modelName} does not exist`
+        result = { success: false, latency, errorType: 'unknownModel', message }
+      } else {
+        result = { success: true, latency, modelInfo }
+      }
+      reply(OP.HICODE_TEST_MODEL_B2F_RES, result, token, latency)
+    },
+    [OP.HICODE_LIST_VENDOR_MODELS_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_LIST_VENDOR_MODELS_F2B_REQ, '获取可用模型', token)) return
+      reply(OP.HICODE_LIST_VENDOR_MODELS_B2F_RES, { models: MOCK_VENDOR_MODELS[data.vendor] ?? [] }, token)
+    },
+    [OP.HICODE_ADD_MODEL_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_ADD_MODEL_F2B_REQ, '新增模型配置', token)) return
+      const modelId = data.modelId || createId('model')
+      state.models.push({ ...data, id: modelId, modelId })
+      reply(OP.HICODE_REFRESH_MODELS_B2F_RES, { type: 'add', models: getPublicModels() }, token)
+    },
+    [OP.HICODE_EDIT_MODEL_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_EDIT_MODEL_F2B_REQ, '更新模型配置', token)) return
+      // 未重新输入 API Key 时保留已保存的 API Key
+      state.models = state.models.map((item) =>
+        item.modelId === data.modelId ? { ...data, apiKey: getApiKey(data) } : item
+      )
+      reply(OP.HICODE_REFRESH_MODELS_B2F_RES, { type: 'edit', models: getPublicModels() }, token)
+    },
+    [OP.HICODE_DELETE_MODEL_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_DELETE_MODEL_F2B_REQ, '删除模型配置', token)) return
+      state.models = state.models.filter((item) => item.modelId !== data.modelId)
+      reply(OP.HICODE_REFRESH_MODELS_B2F_RES, { type: 'delete', models: getPublicModels() }, token)
+    },
+    [OP.HICODE_SAVE_IMPORTED_MODELS_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_SAVE_IMPORTED_MODELS_F2B_REQ, '导入模型配置', token)) return
+      state.models = mergeImported(
+        state.models,
+        data.items.map((item) => ({ ...item, apiKey: getApiKey(item) })),
+        (item) => item.modelId,
+        (item) => {
+          const modelId = createId('model')
+          return { ...item, id: modelId, modelId }
+        }
+      )
+      reply(OP.HICODE_REFRESH_MODELS_B2F_RES, { type: 'import', models: getPublicModels() }, token)
+    },
+    [OP.HICODE_EXPORT_MODELS_F2B_REQ]: (data) => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'success', message: `已模拟导出 ${data.length} 个模型配置` })
+    },
+
+    // ========== Prompt 模板 ==========
+    [OP.HICODE_ADD_USER_PROMPT_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_ADD_USER_PROMPT_F2B_REQ, '新增Prompt', token)) return
+      state.userPrompts.push({ ...data, id: createId('prompt'), isSystemPrompt: false })
+      reply(OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES, { type: 'add', prompts: state.userPrompts }, token)
+    },
+    [OP.HICODE_EDIT_USER_PROMPT_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_EDIT_USER_PROMPT_F2B_REQ, '更新Prompt', token)) return
+      state.userPrompts = state.userPrompts.map((item) => (item.id === data.id ? { ...data } : item))
+      reply(OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES, { type: 'edit', prompts: state.userPrompts }, token)
+    },
+    [OP.HICODE_DELETE_USER_PROMPT_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_DELETE_USER_PROMPT_F2B_REQ, '删除Prompt', token)) return
+      state.userPrompts = state.userPrompts.filter((item) => item.id !== data.id)
+      reply(OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES, { type: 'delete', prompts: state.userPrompts }, token)
+    },
+    [OP.HICODE_SAVE_IMPORTED_PROMPTS_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_SAVE_IMPORTED_PROMPTS_F2B_REQ, '导入Prompt', token)) return
+      state.userPrompts = mergeImported(
+        state.userPrompts,
+        data.items,
+        (item) => item.id,
+        (item) => ({ ...item, id: createId('prompt'), isSystemPrompt: false })
+      )
+      reply(OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES, { type: 'import', prompts: state.userPrompts }, token)
+    },
+    [OP.HICODE_IMPORT_PROMPTS_F2B_REQ]: (data, token) => {
+      const imported = parseImport<PromptData>(data.value)
+      if (!imported) {
+        fail('导入Prompt', '文件格式错误', token)
+        return
+      }
+      state.userPrompts.push(...imported.map((item) => ({ ...item, id: createId('prompt') })))
+      reply(OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES, { type: 'import', prompts: state.userPrompts }, token)
+    },
+    [OP.HICODE_EXPORT_PROMPTS_F2B_REQ]: (data) => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'success', message: `已模拟导出 ${data.length} 个Prompt` })
+    },
+
+    // ========== 附加规范 ==========
+    [OP.HICODE_ADD_SPECIFICATION_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_ADD_SPECIFICATION_F2B_REQ, '新增规范', token)) return
+      state.specifications.push({ ...data, id: createId('spec') })
+      reply(
+        OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+        { type: 'add', specifications: state.specifications },
+        token
+      )
+    },
+    [OP.HICODE_EDIT_SPECIFICATION_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_EDIT_SPECIFICATION_F2B_REQ, '更新规范', token)) return
+      state.specifications = state.specifications.map((item) =>
+        item.id === data.id ? { ...data } : item
+      )
+      reply(
+        OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+        { type: 'edit', specifications: state.specifications },
+        token
+      )
+    },
+    [OP.HICODE_DELETE_SPECIFICATION_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_DELETE_SPECIFICATION_F2B_REQ, '删除规范', token)) return
+      state.specifications = state.specifications.filter((item) => item.id !== data.id)
+      reply(
+        OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+        { type: 'delete', specifications: state.specifications },
+        token
+      )
+    },
+    [OP.HICODE_SAVE_IMPORTED_SPECIFICATIONS_F2B_REQ]: (data, token) => {
+      if (shouldFail(OP.HICODE_SAVE_IMPORTED_SPECIFICATIONS_F2B_REQ, '导入规范', token)) return
+      state.specifications = mergeImported(
+        state.specifications,
+        data.items,
+        (item) => item.id,
+        (item) => ({ ...item, id: createId('spec') })
+      )
+      reply(
+        OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+        { type: 'import', specifications: state.specifications },
+        token
+      )
+    },
+    [OP.HICODE_IMPORT_SPECIFICATIONS_F2B_REQ]: (data, token) => {
+      const imported = parseImport<MockState['specifications'][number]>(data.value)
+      if (!imported) {
+        fail('导入规范', '文件格式错误', token)
+        return
+      }
+      state.specifications.push(...imported.map((item) => ({ ...item, id: createId('spec') })))
+      reply(
+        OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+        { type: 'import', specifications: state.specifications },
+        token
+      )
+    },
+    [OP.HICODE_EXPORT_SPECIFICATIONS_F2B_REQ]: (data) => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'success', message: `已模拟导出 ${data.length} 条规范` })
+    },
+    [OP.HICODE_GET_WORKSPACE_CONFIG_F2B_REQ]: (_data, token) => {
+      reply(OP.HICODE_REFRESH_WORKSPACE_CONFIG_B2F_RES, state.workspaceConfig, token)
+    },
+    [OP.HICODE_OPEN_WORKSPACE_CONFIG_F2B]: (data) => {
+      reply(OP.HICODE_SHOW_MESSAGE_B2F, { type: 'info', message: `已模拟打开 ${data.configPath}` })
+    },
+    [OP.HICODE_GET_SPECIFICATION_CONTEXT_F2B_REQ]: (_data, token) => {
+      reply(
+        OP.HICODE_GET_SPECIFICATION_CONTEXT_B2F_RES,
+        {
+          activeFilePath: state.editorFile.filePath.replace(/^\/workspace\//, ''),
+          systemPrompt: MOCK_SYSTEM_PROMPT,
+          specifications: [
+            ...state.specifications,
+            ...toWorkspaceItems(state.workspaceConfig.specifications),
+          ],
+        },
+        token
+      )
+    },
+  }
+
+  /**
+   * 接收前端消息，按消息类型分发给处理函数
+   */
+  const postMessage = (raw: unknown): void => {
+    const { message, data, token } = (raw ?? {}) as { message?: string; data?: unknown; token?: string }
+    const handler = handlers[message as F2BMessageType] as
+      | ((data: unknown, token?: string) => void)
+      | undefined
+    if (handler) {
+      handler(data, token)
+    }
+  }
+
+  return {
+    scenario,
+    state,
+    postMessage,
+    emit: (message, data) => reply(message, data, undefined, 0),
+  }
+}
+
+/**
+ * 按当前选择的场景启用模拟宿主
+ * 仅在没有 VS Code / IntelliJ 宿主的浏览器中生效，实例挂载到 window.__hicodeMock 供控制台调试
+ */
+export function setupMockHost(): void {
+  const name = getScenarioName()
+  if (name === MOCK_OFF) return
+
+  const scenario = resolveScenario(name)
+  const host = createMockHost(scenario)
+  if (registerMockHost(host)) {
+    ;(window as Window & { __hicodeMock?: MockHost }).__hicodeMock = host
+    console.info(`[mock] 已启用模拟宿主，场景: ${scenario.name}（${scenario.description}）`)
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * 模拟宿主场景
+ * 通过 URL 参数 `?mock=<场景名>` 或 localStorage `hicode-mock-scenario` 选择，
+ * `?mock=off` 关闭模拟宿主
+ */
+import * as OP from '@/utils/messageType'
+import type { F2BMessageType } from '@/utils/messageSchema'
+
+/**
+ * 模拟宿主场景配置
+ */
+export interface MockScenario {
+  /** 场景名称 */
+  name: string
+  /** 场景说明 */
+  description: string
+  /** 响应延迟（毫秒） */
+  latency: number
+  /** 流式回答每个分片的间隔（毫秒） */
+  chunkInterval: number
+  /** 流式回答每个分片的字符数 */
+  chunkSize: number
+  /** 返回 HICODE_ERROR_B2F 的消息类型 */
+  failingTypes: F2BMessageType[]
+  /** 登录是否失败 */
+  loginFails: boolean
+}
+
+/** URL 参数名 */
+export const MOCK_QUERY_KEY = 'mock'
+
+/** localStorage 键名 */
+export const MOCK_STORAGE_KEY = 'hicode-mock-scenario'
+
+/** 关闭模拟宿主的场景名 */
+export const MOCK_OFF = 'off'
+
+const defaultScenario: MockScenario = {
+  name: 'default',
+  description: '正常响应',
+  latency: 200,
+  chunkInterval: 50,
+  chunkSize: 8,
+  failingTypes: [],
+  loginFails: false,
+}
+
+/**
+ * 内置场景
+ */
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  default: defaultScenario,
+  slow: {
+    ...defaultScenario,
+    name: 'slow',
+    description: '响应慢、流式输出慢',
+    latency: 2000,
+    chunkInterval: 400,
+    chunkSize: 3,
+  },
+  error: {
+    ...defaultScenario,
+    name: 'error',
+    description: '问答和配置增删改均返回错误',
+    failingTypes: [
+      OP.HICODE_SEND_MESSAGE_F2B_REQ,
+      OP.HICODE_REANSWER_F2B_REQ,
+      OP.HICODE_ADD_MODEL_F2B_REQ,
+      OP.HICODE_EDIT_MODEL_F2B_REQ,
+      OP.HICODE_DELETE_MODEL_F2B_REQ,
+      OP.HICODE_ADD_USER_PROMPT_F2B_REQ,
+      OP.HICODE_EDIT_USER_PROMPT_F2B_REQ,
+      OP.HICODE_DELETE_USER_PROMPT_F2B_REQ,
+      OP.HICODE_ADD_SPECIFICATION_F2B_REQ,
+      OP.HICODE_EDIT_SPECIFICATION_F2B_REQ,
+      OP.HICODE_DELETE_SPECIFICATION_F2B_REQ,
+    ],
+  },
+  loginFail: {
+    ...defaultScenario,
+    name: 'loginFail',
+    description: '登录失败',
+    loginFails: true,
+  },
+}
+
+/**
+ * 读取当前选择的场景名（URL 参数优先于 localStorage）
+ */
+export const getScenarioName = (): string => {
+  const fromQuery = new URLSearchParams(window.location.search).get(MOCK_QUERY_KEY)
+  if (fromQuery) {
+    return fromQuery
+  }
+  try {
+    return window.localStorage.getItem(MOCK_STORAGE_KEY) || defaultScenario.name
+  } catch {
+    return defaultScenario.name
+  }
+}
+
+/**
+ * 根据场景名获取场景配置，未知场景名回退到默认场景
+ */
+export const resolveScenario = (name: string): MockScenario => {
+  const scenario = MOCK_SCENARIOS[name]
+  if (!scenario) {
+    console.warn(`未知的模拟场景 "${name}"，使用默认场景。可用场景:`, Object.keys(MOCK_SCENARIOS))
+    return defaultScenario
+  }
+  return scenario
+}
@@ -12,6 +12,8 @@ import { markedHighlight } from 'marked-highlight'
 import hljs from 'highlight.js'
 import App from './App.vue'
 import { usePostMessage } from '@/composables/usePostMessage'
+import { messageBus, createLoggingMiddleware } from '@/utils/messageBus'
+import { HICODE_CONSOLE_LOG } from '@/utils/messageType'
 
 const app = createApp(App)
 
@@ -42,10 +44,25 @@ app.config.globalProperties.$marked = marked
 const { postMessage } = usePostMessage()
 app.config.globalProperties.$postMessage = postMessage
 
+// 消息总线中间件：控制台日志，并将收到的消息回传给插件端记录日志
+messageBus.use(createLoggingMiddleware())
+messageBus.use(async (message, next) => {
+  postMessage(HICODE_CONSOLE_LOG, { data: message })
+  await next()
+})
+
 // 导出 hljs 供组件使用（如果需要）
 export { hljs }
 
 // 注册 Element Plus
 app.use(ElementPlus)
 
-app.mount('#app')
+// 开发模式下先启用模拟宿主（仅在没有 VS Code / IntelliJ 宿主的浏览器中生效），再挂载应用
+if (import.meta.env.DEV) {
+  import('@/mock/mockHost').then(({ setupMockHost }) => {
+    setupMockHost()
+    app.mount('#app')
+  })
+} else {
+  app.mount('#app')
+}
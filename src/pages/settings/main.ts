@@ -12,4 +12,12 @@ const app = createApp(App)
 // 注册 Element Plus
 app.use(ElementPlus)
 
-app.mount('#app')
+// 开发模式下先启用模拟宿主（仅在没有 VS Code / IntelliJ 宿主的浏览器中生效），再挂载应用
+if (import.meta.env.DEV) {
+  import('@/mock/mockHost').then(({ setupMockHost }) => {
+    setupMockHost()
+    app.mount('#app')
+  })
+} else {
+  app.mount('#app')
+}
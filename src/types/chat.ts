@@ -0,0 +1,193 @@
+/**
+ * 聊天页面数据类型定义
+ */
+
+/**
+ * 聊天消息数据类型定义
+ */
+export interface ChatMessageData {
+  /** 聊天ID */
+  chatId: string
+  /** 上一轮问答的聊天ID，会话第一轮为空字符串；同一父节点下的多条问答互为分支 */
+  parentId?: string
+  /** 显示的问题 */
+  display_question?: string
+  /** 显示的答案 */
+  display_answer?: string
+  /** 模型名称 */
+  model_name?: string
+  /** 状态：loading-加载中, stopping-停止中（等待后端确认）, finished-完成, break-中断 */
+  status?: 'loading' | 'stopping' | 'finished' | 'break'
+  /** 回答的用量统计（插件端在回答结束时返回） */
+  usage?: AnswerUsage
+}
+
+/**
+ * 回答的用量统计，各项由插件端按模型返回，未返回的项不显示
+ */
+export interface AnswerUsage {
+  /** 输入 Token 数 */
+  promptTokens?: number
+  /** 输出 Token 数 */
+  completionTokens?: number
+  /** 从发送到回答结束的耗时（毫秒） */
+  latency?: number
+}
+
+/**
+ * 聊天模型数据类型定义
+ */
+export interface ChatModel {
+  /** 模型ID */
+  id?: string | number
+  /** 模型名称（唯一标识） */
+  modelName: string
+  /** 模型显示名称 */
+  displayName?: string
+  /** 模型描述 */
+  modelDescription?: string
+  /** 是否支持多模态（图片输入） */
+  supportMultimodal?: boolean
+  /** 是否支持流式输出，未设置时视为支持 */
+  supportStreaming?: boolean
+  /** 是否支持工具调用 */
+  supportToolCalls?: boolean
+  /** 最大上下文Token，未配置时不提示上下文用量 */
+  maxContextTokens?: number
+  /** 其他可选属性 */
+  [key: string]: unknown
+}
+
+/**
+ * 模板项数据类型定义
+ */
+export interface PromptItem {
+  /** 模板ID */
+  id: string | number
+  /** 模板标题 */
+  title: string
+  /** 模板内容，可声明 {{变量}}（见 utils/promptTemplate） */
+  prompt?: string
+  /** 其他可选属性 */
+  [key: string]: unknown
+}
+
+/**
+ * 资源数据类型定义
+ */
+export interface Resource {
+  /** 资源唯一标识 */
+  id: string
+  /** 资源类型：code-代码片段, file-文件, image-图片, mention-@引用（发送时由后端解析内容） */
+  type: 'code' | 'file' | 'image' | 'mention'
+  /** 代码语言（type为code时使用） */
+  language?: string
+  /** 代码语言ID（type为code时使用） */
+  languageId?: string
+  /** 文件路径 */
+  filePath?: string
+  /** 代码内容（type为code时使用） */
+  code?: string
+  /** 起始行号（type为code时使用） */
+  startLine?: number
+  /** 结束行号（type为code时使用） */
+  endLine?: number
+  /** 是否已固定（type为code时使用，未固定的代码片段跟随编辑器选区变化） */
+  pinned?: boolean
+  /** 资源名称 */
+  name?: string
+  /** 文件内容（type为file时使用，为空时只发送文件路径，由后端读取） */
+  content?: string
+  /** 图片数据，data URL 格式（type为image时使用） */
+  data?: string
+  /** 文件 MIME 类型 */
+  mimeType?: string
+  /** 文件大小（字节） */
+  size?: number
+  /** @引用的上下文项（type为mention时使用） */
+  mention?: MentionItem
+}
+
+/**
+ * @引用的上下文类型
+ * openFile-打开的文件, file-工作区文件, symbol-符号, gitDiff-Git 变更, terminal-终端输出, problems-问题列表
+ */
+export type MentionKind = 'openFile' | 'file' | 'symbol' | 'gitDiff' | 'terminal' | 'problems'
+
+/**
+ * @引用的上下文项（由插件端搜索提供）
+ */
+export interface MentionItem {
+  /** 插件端标识，发送问题时由插件端据此解析内容 */
+  id: string
+  /** 上下文类型 */
+  kind: MentionKind
+  /** 显示名称 */
+  label: string
+  /** 补充说明（如所在目录、符号类型） */
+  description?: string
+  /** 关联的文件路径 */
+  filePath?: string
+}
+
+/**
+ * 代码选择数据类型定义
+ */
+export interface SelectionData {
+  /** 选中的代码 */
+  selectCode?: string
+  /** 代码语言 */
+  language?: string
+  /** 代码语言ID */
+  languageId?: string
+  /** 文件路径 */
+  filePath?: string
+  /** 起始行号 */
+  startLine?: number
+  /** 结束行号 */
+  endLine?: number
+}
+
+/**
+ * 历史会话摘要
+ */
+export interface ConversationSummary {
+  /** 会话ID */
+  id: string
+  /** 会话标题 */
+  title: string
+  /** 使用的模型名称 */
+  modelName?: string
+  /** 最后更新时间（时间戳，毫秒） */
+  updateTime: number
+  /** 消息数量 */
+  messageCount: number
+  /** 是否置顶 */
+  pinned?: boolean
+}
+
+/**
+ * 历史会话分页查询条件
+ */
+export interface HistoryQuery {
+  /** 搜索关键字（匹配标题和消息内容） */
+  keyword?: string
+  /** 页码（从 1 开始） */
+  page: number
+  /** 每页条数 */
+  pageSize: number
+}
+
+/**
+ * 历史会话分页结果（置顶会话排在前面）
+ */
+export interface HistoryPage {
+  /** 当前页的会话 */
+  items: ConversationSummary[]
+  /** 总条数 */
+  total: number
+  /** 页码 */
+  page: number
+  /** 每页条数 */
+  pageSize: number
+}
@@ -0,0 +1,131 @@
+/**
+ * 设置页面数据类型定义
+ */
+
+/**
+ * 接口格式（自定义厂商）：openai-chat-OpenAI Chat Completions,
+ * anthropic-messages-Anthropic Messages, ollama-Ollama
+ */
+export type ApiFormat = 'openai-chat' | 'anthropic-messages' | 'ollama'
+
+/**
+ * 认证方式（自定义厂商）：bearer-Authorization: Bearer <API Key>,
+ * header-以自定义请求头发送 API Key, none-不认证
+ */
+export type AuthStyle = 'bearer' | 'header' | 'none'
+
+/**
+ * 模型数据类型定义
+ */
+export interface ModelData {
+  id?: string
+  modelId: string
+  modelName: string
+  displayName?: string
+  maxContextTokens?: number
+  /** 是否支持多模态（图片输入） */
+  supportMultimodal?: boolean
+  /** 是否支持流式输出，未设置时视为支持 */
+  supportStreaming?: boolean
+  /** 是否支持工具调用 */
+  supportToolCalls?: boolean
+  vendor: string
+  modelDescription?: string
+  /** API Key（只写：插件端不返回，只在新增或重新输入时发送，为空表示保持不变） */
+  apiKey?: string
+  /** 插件端是否已保存 API Key */
+  hasApiKey?: boolean
+  /** 已保存 API Key 的掩码提示，如 ****abcd */
+  apiKeyHint?: string
+  apiBaseUrl?: string
+  /** 接口格式（自定义厂商） */
+  apiFormat?: ApiFormat
+  /** 认证方式（自定义厂商） */
+  authStyle?: AuthStyle
+  /** 认证请求头名称（认证方式为 header 时使用，如 x-api-key） */
+  authHeaderName?: string
+  /** 额外请求头（自定义厂商） */
+  extraHeaders?: Record<string, string>
+}
+
+/**
+ * 厂商接口返回的模型信息
+ */
+export interface VendorModelInfo {
+  /** 模型调用名称 */
+  id: string
+  /** 提供方 */
+  ownedBy?: string
+  /** 最大上下文Token */
+  contextLength?: number
+}
+
+/**
+ * 测试连接失败原因：auth-认证失败, network-网络错误, unknownModel-模型不存在, unknown-其他错误
+ */
+export type ModelTestErrorType = 'auth' | 'network' | 'unknownModel' | 'unknown'
+
+/**
+ * 配置来源：system-内置, user-用户（全局）, workspace-工作区（仓库中的配置文件，团队共享）
+ */
+export type ConfigScope = 'system' | 'user' | 'workspace'
+
+/**
+ * Prompt 模板数据类型定义
+ */
+export interface PromptData {
+  id?: string
+  title: string
+  prompt: string
+  modelParams?: string
+  model: string
+  isSystemPrompt?: boolean
+  /** 来源，未设置时按 isSystemPrompt 区分系统和用户模板 */
+  scope?: ConfigScope
+}
+
+/**
+ * 附加规范数据类型定义
+ */
+export interface SpecificationData {
+  id?: string
+  name: string
+  regex: string
+  content: string
+  action: string
+  state: boolean
+  /** 来源，未设置时为用户规范 */
+  scope?: ConfigScope
+}
+
+/**
+ * 工作区配置（插件端读取仓库中的配置文件，文件在外部修改后重新推送）
+ */
+export interface WorkspaceConfig {
+  /** 配置文件路径（相对于工作区根目录），没有打开工作区时为空 */
+  configPath?: string
+  prompts: PromptData[]
+  specifications: SpecificationData[]
+  /** 配置文件读取或解析失败的原因 */
+  error?: string
+}
+
+/**
+ * 列表刷新类型：add-新增, edit-编辑, delete-删除, import-导入
+ */
+export type RefreshType = 'add' | 'edit' | 'delete' | 'import'
+
+/**
+ * 设置页面初始化数据
+ */
+export interface SettingsData {
+  userName?: string
+  /** 插件端是否已保存密码（密码只写，插件端不返回） */
+  hasPassword?: boolean
+  loginStatus?: boolean
+  modelOptions?: ModelData[]
+  fillModel?: string
+  complete?: string
+  prompts?: PromptData[]
+  specifications?: SpecificationData[]
+}
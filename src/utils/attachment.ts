@@ -0,0 +1,135 @@
+/**
+ * 附件处理
+ * 将拖入、粘贴或由插件选择的文件转换为输入框资源，并在发送时决定内联到问题中还是作为附件发送
+ */
+import type { Resource } from '@/types/chat'
+import type { AttachedFile, MessageAttachment } from '@/utils/messageSchema'
+
+/** 图片大小上限（字节） */
+export const IMAGE_MAX_SIZE = 5 * 1024 * 1024
+
+/** 内联到问题中的文件大小上限（字节），超过时只发送文件路径 */
+export const FILE_INLINE_MAX_SIZE = 200 * 1024
+
+/** 支持的图片类型 */
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+/**
+ * 附件处理失败
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+/**
+ * 生成资源ID
+ */
+const createResourceId = (type: Resource['type']): string =>
+  `${type}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+
+/**
+ * 判断是否为支持的图片文件
+ */
+export const isImageFile = (file: Pick<File, 'type'>): boolean =>
+  IMAGE_MIME_TYPES.includes(file.type)
+
+/**
+ * 格式化文件大小
+ */
+const formatSize = (size: number): string =>
+  size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(size / 1024)}KB`
+
+/**
+ * 读取文件
+ */
+const readFile = (file: File, as: 'text' | 'dataURL'): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result ?? ''))
+    reader.onerror = () => reject(new AttachmentError(`读取文件失败：${file.name}`))
+    if (as === 'text') {
+      reader.readAsText(file)
+    } else {
+      reader.readAsDataURL(file)
+    }
+  })
+
+/**
+ * 将拖入或粘贴的文件转换为资源
+ * Webview 中拿不到本地文件路径，文本文件必须读取内容内联发送，因此超过大小上限时拒绝
+ *
+ * @throws {AttachmentError} 文件过大或读取失败
+ */
+export const fileToResource = async (file: File): Promise<Resource> => {
+  if (isImageFile(file)) {
+    if (file.size > IMAGE_MAX_SIZE) {
+      throw new AttachmentError(`图片 ${file.name} 超过 ${formatSize(IMAGE_MAX_SIZE)}`)
+    }
+    return {
+      id: createResourceId('image'),
+      type: 'image',
+      name: file.name || 'image.png',
+      data: await readFile(file, 'dataURL'),
+      mimeType: file.type,
+      size: file.size,
+    }
+  }
+
+  if (file.size > FILE_INLINE_MAX_SIZE) {
+    throw new AttachmentError(
+      `文件 ${file.name} 超过 ${formatSize(FILE_INLINE_MAX_SIZE)}，请通过附件按钮从工作区选择`
+    )
+  }
+  return {
+    id: createResourceId('file'),
+    type: 'file',
+    name: file.name,
+    content: await readFile(file, 'text'),
+    mimeType: file.type,
+    size: file.size,
+  }
+}
+
+/**
+ * 将插件返回的附件转换为资源
+ */
+export const attachedFileToResource = (file: AttachedFile): Resource => ({
+  id: createResourceId(file.type),
+  type: file.type,
+  name: file.name,
+  filePath: file.filePath,
+  content: file.content,
+  language: file.languageId,
+  languageId: file.languageId,
+  data: file.data,
+  mimeType: file.mimeType,
+  size: file.size,
+})
+
+/**
+ * 判断文件资源是否内联到问题中（已读取内容且未超过大小上限）
+ */
+export const isInlineFile = (resource: Resource): boolean =>
+  resource.type === 'file' &&
+  resource.content !== undefined &&
+  resource.content.length <= FILE_INLINE_MAX_SIZE
+
+/**
+ * 获取需要作为附件发送的资源（图片和未内联的文件）
+ */
+export const toMessageAttachments = (resources: Resource[]): MessageAttachment[] =>
+  resources
+    .filter(
+      (resource) =>
+        resource.type === 'image' || (resource.type === 'file' && !isInlineFile(resource))
+    )
+    .map((resource) => ({
+      type: resource.type as MessageAttachment['type'],
+      name: resource.name || resource.filePath || resource.id,
+      filePath: resource.filePath,
+      data: resource.type === 'image' ? resource.data : undefined,
+      mimeType: resource.mimeType,
+    }))
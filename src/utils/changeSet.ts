@@ -0,0 +1,94 @@
+/**
+ * 多文件修改
+ * 从回答中找出标注了文件路径的代码块，组成可以一次性写入工作区的修改集合。
+ * 支持两种标注方式：
+ * - 代码块信息中的属性，如 ```ts title="src/foo.ts"（也支持 file、filename、path）或 ```ts:src/foo.ts
+ * - 代码块前紧邻的一行路径，如 `src/foo.ts`、**src/foo.ts**、文件：src/foo.ts、### src/foo.ts
+ */
+import type { Marked, Token } from 'marked'
+import type { FileChange } from '@/utils/messageSchema'
+
+/** 代码块信息中标注路径的属性 */
+const INFO_PATH_PATTERN = /\b(?:title|file|filename|path)\s*=\s*(?:"([^"]+)"|'([^']+)'|(\S+))/
+
+/** 路径前的说明文字，如“文件：” */
+const PATH_LABEL_PATTERN = /^(?:文件(?:名|路径)?|file(?:name)?|path)\s*[:：]\s*/i
+
+/** 路径中允许的字符 */
+const PATH_PATTERN = /^[\w@$+\-.~/\\]+$/
+
+/** 绝对路径和用户目录路径的开头 */
+const ROOT_PATTERN = /^[/\\~]/
+
+/**
+ * 判断是否为文件路径：须包含目录或扩展名，不能是链接，也不能跳出工作区（绝对路径、~、..）
+ */
+const isFilePath = (value: string): boolean => {
+  if (!PATH_PATTERN.test(value) || value.length > 260) return false
+  if (ROOT_PATTERN.test(value)) return false
+  const segments = value.split(/[\\/]/)
+  if (segments.includes('..')) return false
+  const name = segments[segments.length - 1] || ''
+  return segments.length > 1 ? name !== '' : /^[^.]*[^.]\.\w+$/.test(name)
+}
+
+/**
+ * 从代码块信息（```后的内容）中获取路径
+ */
+const getInfoPath = (info: string): string => {
+  const matched = INFO_PATH_PATTERN.exec(info)
+  if (matched) return matched[1] || matched[2] || matched[3] || ''
+  // ```ts:src/foo.ts
+  const [first = ''] = info.split(/\s/)
+  const index = first.indexOf(':')
+  return index > 0 ? first.slice(index + 1) : ''
+}
+
+/**
+ * 从代码块前的段落或标题中获取路径（只看最后一行）
+ */
+const getLeadingPath = (token: Token | undefined): string => {
+  if (!token || (token.type !== 'paragraph' && token.type !== 'heading')) return ''
+  const lines = token.text.trim().split('\n')
+  return (lines[lines.length - 1] || '')
+    .trim()
+    .replace(/^[*_`]+|[*_`]+$/g, '')
+    .replace(PATH_LABEL_PATTERN, '')
+    .replace(/[:：]$/, '')
+    .replace(/^[*_`]+|[*_`]+$/g, '')
+    .trim()
+}
+
+/**
+ * 获取代码块的语言（代码块信息的第一个词）
+ */
+const getLanguage = (info: string): string | undefined => {
+  const [first = ''] = info.split(/\s/)
+  return first.split(':')[0] || undefined
+}
+
+/**
+ * 从回答中解析多文件修改
+ * 只识别顶层的代码块；同一文件出现多次时以最后一个代码块为准，顺序按首次出现的位置
+ *
+ * @param marked marked 实例（使用与渲染相同的配置分词）
+ * @param source 回答内容
+ */
+export const parseChangeSet = (marked: Marked, source: string): FileChange[] => {
+  const changes = new Map<string, FileChange>()
+  let previous: Token | undefined
+  for (const token of marked.lexer(source)) {
+    if (token.type === 'space') continue
+    if (token.type === 'code' && !token.codeBlockStyle) {
+      const info = (token.lang || '').trim()
+      const path = [getInfoPath(info), getLeadingPath(previous)].find(isFilePath)
+      if (path) {
+        const filePath = path.replace(/\\/g, '/').replace(/^\.\//, '')
+        const content = token.text.endsWith('\n') ? token.text : `${token.text}\n`
+        changes.set(filePath, { filePath, language: getLanguage(info), content })
+      }
+    }
+    previous = token
+  }
+  return [...changes.values()]
+}
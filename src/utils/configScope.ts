@@ -0,0 +1,91 @@
+/**
+ * 配置来源（Prompt 模板、附加规范）
+ * - 系统项内置，工作区项来自仓库中的配置文件，两者在设置页只读（工作区项在配置文件中修改）
+ * - 同名项按 工作区 > 用户 > 系统 的优先级生效，被覆盖的项保留在列表中但不生效
+ * - 列表中用户项在前、工作区项在后，附加规范按此顺序依次应用
+ */
+import type { ConfigScope } from '@/types/settings'
+
+/** 可区分来源的配置项 */
+export interface ScopedItem {
+  scope?: ConfigScope
+  isSystemPrompt?: boolean
+}
+
+/** 来源的标签 */
+export interface ScopeTag {
+  label: string
+  type: 'info' | 'primary' | 'success'
+}
+
+/** 来源的显示 */
+export const SCOPE_TAGS: Record<ConfigScope, ScopeTag> = {
+  system: { label: '系统', type: 'info' },
+  user: { label: '用户', type: 'primary' },
+  workspace: { label: '工作区', type: 'success' },
+}
+
+/** 表格中按来源筛选的选项 */
+export const SCOPE_FILTERS = (Object.keys(SCOPE_TAGS) as ConfigScope[]).map((scope) => ({
+  text: SCOPE_TAGS[scope].label,
+  value: scope,
+}))
+
+/** 同名时的优先级，数值大的生效 */
+const SCOPE_PRIORITY: Record<ConfigScope, number> = {
+  system: 0,
+  user: 1,
+  workspace: 2,
+}
+
+/**
+ * 获取配置项的来源
+ */
+export const getScope = (item: ScopedItem): ConfigScope =>
+  item.scope ?? (item.isSystemPrompt ? 'system' : 'user')
+
+/**
+ * 判断配置项在设置页是否只读
+ */
+export const isReadonlyScope = (item: ScopedItem): boolean => getScope(item) !== 'user'
+
+/**
+ * 为工作区配置中的项标记来源
+ */
+export const toWorkspaceItems = <T extends ScopedItem>(items: T[]): T[] =>
+  items.map((item) => ({ ...item, scope: 'workspace' as const, isSystemPrompt: false }))
+
+/**
+ * 计算同名项的覆盖关系
+ *
+ * @returns 获取覆盖某项的来源，未被覆盖时返回 undefined
+ */
+export const resolveOverrides = <T extends ScopedItem>(
+  items: T[],
+  getName: (item: T) => string
+): ((item: T) => ConfigScope | undefined) => {
+  // 名称 → 生效的来源
+  const winners = new Map<string, ConfigScope>()
+  items.forEach((item) => {
+    const scope = getScope(item)
+    const current = winners.get(getName(item))
+    if (!current || SCOPE_PRIORITY[scope] > SCOPE_PRIORITY[current]) {
+      winners.set(getName(item), scope)
+    }
+  })
+  return (item) => {
+    const winner = winners.get(getName(item))
+    return winner && winner !== getScope(item) ? winner : undefined
+  }
+}
+
+/**
+ * 去掉被同名项覆盖的项
+ */
+export const getEffectiveItems = <T extends ScopedItem>(
+  items: T[],
+  getName: (item: T) => string
+): T[] => {
+  const getOverride = resolveOverrides(items, getName)
+  return items.filter((item) => !getOverride(item))
+}
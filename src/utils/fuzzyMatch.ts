@@ -0,0 +1,66 @@
+/**
+ * 模糊匹配
+ * 关键字的字符按顺序出现在文本中即视为匹配（不区分大小写），
+ * 连续匹配和在单词开头（路径分隔符、下划线、驼峰等之后）的匹配得分更高
+ */
+
+/**
+ * 匹配结果
+ */
+export interface FuzzyMatch {
+  /** 得分，越高越相关 */
+  score: number
+  /** 匹配字符在文本中的位置（用于高亮） */
+  indices: number[]
+}
+
+/** 单词分隔符 */
+const SEPARATORS = new Set(['/', '\\', '.', '_', '-', ' ', ':'])
+
+/**
+ * 判断位置是否为单词开头
+ */
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) return true
+  const prev = text[index - 1] as string
+  const curr = text[index] as string
+  if (SEPARATORS.has(prev)) return true
+  // 驼峰：小写后的大写字母
+  return prev === prev.toLowerCase() && curr !== curr.toLowerCase()
+}
+
+/**
+ * 模糊匹配关键字
+ *
+ * @param query 关键字，为空时匹配任意文本（得分为 0）
+ * @param text 待匹配的文本
+ * @returns 匹配结果，不匹配时返回 null
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const lowerQuery = query.toLowerCase()
+  const lowerText = text.toLowerCase()
+  const indices: number[] = []
+  let score = 0
+  let from = 0
+
+  for (const char of lowerQuery) {
+    const index = lowerText.indexOf(char, from)
+    if (index === -1) return null
+
+    const last = indices[indices.length - 1]
+    score += 1
+    if (last !== undefined && index === last + 1) {
+      score += 5
+    }
+    if (isWordStart(text, index)) {
+      score += 8
+    }
+    // 跳过的字符越多得分越低
+    score -= Math.min(index - from, 10) * 0.1
+    indices.push(index)
+    from = index + 1
+  }
+
+  // 同等条件下较短的文本更相关
+  return { score: score - text.length * 0.01, indices }
+}
@@ -0,0 +1,437 @@
+/**
+ * 导入模型配置、Prompt 模板和附加规范
+ * 前端解析并校验导入文件，按名称与已有项对比，分为新增、变更和重复三类；
+ * 变更和重复的项由用户逐项选择跳过、覆盖或重命名，最后只把确定导入的项发给插件端
+ */
+import type {
+  ApiFormat,
+  AuthStyle,
+  ModelData,
+  PromptData,
+  SpecificationData,
+} from '@/types/settings'
+import { parseModelParams } from '@/utils/modelParams'
+import {
+  API_FORMAT_OPTIONS,
+  AUTH_STYLE_OPTIONS,
+  CUSTOM_VENDOR,
+  toHeaderRows,
+  validateHeaderRows,
+} from '@/utils/modelVendor'
+import { getRegexError } from '@/utils/specificationRules'
+
+/** 可导入的数据 */
+export type ImportItem = ModelData | PromptData | SpecificationData
+
+/**
+ * 导入项状态：new-新增, changed-与已有项同名但内容不同, duplicate-与已有项完全相同
+ */
+export type ImportStatus = 'new' | 'changed' | 'duplicate'
+
+/**
+ * 冲突处理方式：skip-跳过, overwrite-覆盖已有项, rename-重命名后新增
+ */
+export type ConflictAction = 'skip' | 'overwrite' | 'rename'
+
+/** 冲突处理方式选项 */
+export const CONFLICT_ACTION_OPTIONS: Array<{ label: string; value: ConflictAction }> = [
+  { label: '跳过', value: 'skip' },
+  { label: '覆盖', value: 'overwrite' },
+  { label: '重命名', value: 'rename' },
+]
+
+/**
+ * 参与对比的字段
+ */
+export interface ImportField<T> {
+  key: keyof T & string
+  label: string
+  /** 未设置时的默认值，与默认值相同视为未修改 */
+  defaultValue?: unknown
+}
+
+/**
+ * 各类数据的导入定义
+ */
+export interface ImportSchema<T extends ImportItem> {
+  /** 数据名称，如「模型配置」 */
+  label: string
+  /** 导入文件中的列表字段（文件也可以直接是数组） */
+  listKey: string
+  /** 获取名称（同名视为同一项） */
+  getName: (item: T) => string
+  /** 修改名称 */
+  setName: (item: T, name: string) => T
+  /** 参与对比的字段 */
+  fields: ImportField<T>[]
+  /** 校验并整理导入文件中的一项 */
+  normalize: (raw: Record<string, unknown>) => T | string
+  /** 设置发给插件端的标识：覆盖时沿用已有项的标识，新增时清空标识由插件端生成 */
+  withIdentity: (item: T, existing?: T) => T
+  /** 已有项是否只读（只读的项不能覆盖） */
+  isReadonly?: (item: T) => boolean
+}
+
+/**
+ * 导入项
+ */
+export interface ImportEntry<T extends ImportItem> {
+  item: T
+  name: string
+  status: ImportStatus
+  /** 同名的已有项 */
+  existing?: T
+  /** 与已有项不同的字段名称 */
+  changedFields: string[]
+  /** 冲突处理方式（新增项忽略） */
+  action: ConflictAction
+  /** 重命名后的名称 */
+  newName: string
+}
+
+/**
+ * 导入文件解析结果
+ */
+export interface ParsedImport<T extends ImportItem> {
+  entries: ImportEntry<T>[]
+  /** 无法导入的项的说明 */
+  errors: string[]
+}
+
+/**
+ * 判断是否为普通对象
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * 读取字符串字段
+ *
+ * @returns 字段值，类型不对时返回 null
+ */
+const readString = (raw: Record<string, unknown>, key: string): string | null => {
+  const value = raw[key]
+  if (value === undefined || value === null) return ''
+  return typeof value === 'string' ? value : null
+}
+
+/**
+ * 读取可选字段，未设置时返回 undefined，类型不对时返回 null
+ */
+const readOptional = <V>(
+  raw: Record<string, unknown>,
+  key: string,
+  type: 'string' | 'number' | 'boolean'
+): V | undefined | null => {
+  const value = raw[key]
+  if (value === undefined || value === null) return undefined
+  return typeof value === type ? (value as V) : null
+}
+
+/**
+ * 对比用的字段值：空值视为未设置，对象按键排序后序列化
+ */
+const toComparable = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return ''
+  if (isRecord(value)) {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+    return entries.length > 0 ? JSON.stringify(entries) : ''
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * 获取与已有项不同的字段名称
+ */
+const getChangedFields = <T extends ImportItem>(
+  schema: ImportSchema<T>,
+  item: T,
+  existing: T
+): string[] =>
+  schema.fields
+    .filter(({ key, defaultValue }) => {
+      const value = toComparable(item[key] ?? defaultValue)
+      return value !== toComparable(existing[key] ?? defaultValue)
+    })
+    .map((field) => field.label)
+
+/**
+ * 生成不与已有名称重复的名称，如 名称 (2)
+ */
+export const suggestName = (name: string, taken: Set<string>): string => {
+  let index = 2
+  while (taken.has(`${name} (${index})`)) {
+    index++
+  }
+  return `${name} (${index})`
+}
+
+/**
+ * 解析导入文件，与已有项对比
+ *
+ * @param text 导入文件内容（JSON 数组，或包含列表字段的对象）
+ * @param schema 导入定义
+ * @param existing 已有项
+ */
+export const parseImportFile = <T extends ImportItem>(
+  text: string,
+  schema: ImportSchema<T>,
+  existing: T[]
+): ParsedImport<T> => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { entries: [], errors: [`文件不是有效的 JSON：${message}`] }
+  }
+
+  const list = Array.isArray(data) ? data : isRecord(data) ? data[schema.listKey] : undefined
+  if (!Array.isArray(list)) {
+    return { entries: [], errors: [`文件中没有${schema.label}列表`] }
+  }
+
+  const existingByName = new Map(existing.map((item) => [schema.getName(item), item]))
+  const taken = new Set(existingByName.keys())
+  const seen = new Map<string, number>()
+  const entries: ImportEntry<T>[] = []
+  const errors: string[] = []
+
+  list.forEach((raw, index) => {
+    const position = `第 ${index + 1} 项`
+    const item = isRecord(raw) ? schema.normalize(raw) : '不是对象'
+    if (typeof item === 'string') {
+      errors.push(`${position}：${item}`)
+      return
+    }
+
+    const name = schema.getName(item)
+    const first = seen.get(name)
+    if (first !== undefined) {
+      errors.push(`${position}：名称「${name}」与第 ${first + 1} 项重复，已忽略`)
+      return
+    }
+    seen.set(name, index)
+
+    const match = existingByName.get(name)
+    const changedFields = match ? getChangedFields(schema, item, match) : []
+    const status: ImportStatus = !match ? 'new' : changedFields.length > 0 ? 'changed' : 'duplicate'
+    const newName = match ? suggestName(name, taken) : name
+    taken.add(newName)
+    entries.push({ item, name, status, existing: match, changedFields, action: 'skip', newName })
+  })
+
+  return { entries, errors }
+}
+
+/**
+ * 判断导入项是否可以覆盖已有项
+ */
+export const canOverwrite = <T extends ImportItem>(
+  schema: ImportSchema<T>,
+  entry: ImportEntry<T>
+): boolean => !!entry.existing && !schema.isReadonly?.(entry.existing)
+
+/**
+ * 获取导入后的名称
+ */
+const getFinalName = <T extends ImportItem>(entry: ImportEntry<T>): string | null => {
+  if (entry.status === 'new') return entry.name
+  if (entry.action === 'rename') return entry.newName.trim()
+  return null
+}
+
+/**
+ * 校验重命名
+ *
+ * @returns 错误说明，没有错误时返回空字符串
+ */
+export const getRenameError = <T extends ImportItem>(
+  schema: ImportSchema<T>,
+  entries: ImportEntry<T>[],
+  entry: ImportEntry<T>,
+  existing: T[]
+): string => {
+  if (entry.status === 'new' || entry.action !== 'rename') return ''
+  const name = entry.newName.trim()
+  if (!name) return '请输入新名称'
+  if (existing.some((item) => schema.getName(item) === name)) return '名称已存在'
+  const sameName = entries.filter((other) => getFinalName(other) === name)
+  return sameName.length > 1 ? '与其他导入项重名' : ''
+}
+
+/**
+ * 生成发给插件端的导入项：新增项和重命名项作为新项，覆盖项沿用已有项的标识，跳过的项不发送
+ */
+export const resolveImportEntries = <T extends ImportItem>(
+  schema: ImportSchema<T>,
+  entries: ImportEntry<T>[]
+): T[] =>
+  entries.flatMap((entry) => {
+    if (entry.status === 'new') return [schema.withIdentity(entry.item)]
+    if (entry.action === 'rename') {
+      return [schema.withIdentity(schema.setName(entry.item, entry.newName.trim()))]
+    }
+    if (entry.action === 'overwrite' && canOverwrite(schema, entry)) {
+      return [schema.withIdentity(entry.item, entry.existing)]
+    }
+    return []
+  })
+
+/**
+ * 整理导入的模型配置（导入文件中的 API Key 仍会发给插件端保存）
+ */
+const normalizeModel = (raw: Record<string, unknown>): ModelData | string => {
+  const modelName = readString(raw, 'modelName')?.trim()
+  const vendor = readString(raw, 'vendor')?.trim()
+  if (!modelName) return '缺少模型名称（modelName）'
+  if (!vendor) return `模型「${modelName}」缺少厂商（vendor）`
+
+  const model: ModelData = { modelId: '', modelName, vendor }
+  const stringKeys = [
+    'displayName',
+    'modelDescription',
+    'apiKey',
+    'apiBaseUrl',
+    'authHeaderName',
+  ] as const
+  for (const key of stringKeys) {
+    const value = readOptional<string>(raw, key, 'string')
+    if (value === null) return `模型「${modelName}」的 ${key} 必须为字符串`
+    if (value) model[key] = value
+  }
+  const booleanKeys = ['supportMultimodal', 'supportStreaming', 'supportToolCalls'] as const
+  for (const key of booleanKeys) {
+    const value = readOptional<boolean>(raw, key, 'boolean')
+    if (value === null) return `模型「${modelName}」的 ${key} 必须为 true 或 false`
+    if (value !== undefined) model[key] = value
+  }
+  const maxContextTokens = readOptional<number>(raw, 'maxContextTokens', 'number')
+  if (maxContextTokens === null || (maxContextTokens !== undefined && maxContextTokens <= 0)) {
+    return `模型「${modelName}」的 maxContextTokens 必须为正数`
+  }
+  model.maxContextTokens = maxContextTokens
+
+  if (vendor !== CUSTOM_VENDOR) return model
+
+  // 自定义厂商的接口配置
+  if (!model.apiBaseUrl) return `自定义厂商模型「${modelName}」缺少接口地址（apiBaseUrl）`
+  const apiFormat = raw.apiFormat ?? 'openai-chat'
+  if (!API_FORMAT_OPTIONS.some((option) => option.value === apiFormat)) {
+    return `模型「${modelName}」的接口格式 ${String(apiFormat)} 不支持`
+  }
+  const authStyle = raw.authStyle ?? 'bearer'
+  if (!AUTH_STYLE_OPTIONS.some((option) => option.value === authStyle)) {
+    return `模型「${modelName}」的认证方式 ${String(authStyle)} 不支持`
+  }
+  model.apiFormat = apiFormat as ApiFormat
+  model.authStyle = authStyle as AuthStyle
+  if (raw.extraHeaders !== undefined) {
+    const headers = raw.extraHeaders
+    if (!isRecord(headers) || Object.values(headers).some((value) => typeof value !== 'string')) {
+      return `模型「${modelName}」的额外请求头必须为字符串键值对`
+    }
+    const headerError = validateHeaderRows(toHeaderRows(headers as Record<string, string>))
+    if (headerError) return `模型「${modelName}」的${headerError}`
+    model.extraHeaders = headers as Record<string, string>
+  }
+  return model
+}
+
+/** 模型配置的导入定义（按模型名称判断是否为同一模型） */
+export const MODEL_IMPORT_SCHEMA: ImportSchema<ModelData> = {
+  label: '模型配置',
+  listKey: 'models',
+  getName: (item) => item.modelName,
+  setName: (item, name) => ({ ...item, modelName: name }),
+  fields: [
+    { key: 'displayName', label: '显示名称' },
+    { key: 'vendor', label: '厂商' },
+    { key: 'modelDescription', label: '描述' },
+    { key: 'maxContextTokens', label: '最大上下文Token' },
+    { key: 'supportMultimodal', label: '多模态', defaultValue: false },
+    { key: 'supportStreaming', label: '流式输出', defaultValue: true },
+    { key: 'supportToolCalls', label: '工具调用', defaultValue: false },
+    { key: 'apiBaseUrl', label: '接口地址' },
+    { key: 'apiFormat', label: '接口格式' },
+    { key: 'authStyle', label: '认证方式' },
+    { key: 'authHeaderName', label: '认证请求头' },
+    { key: 'extraHeaders', label: '额外请求头' },
+  ],
+  normalize: normalizeModel,
+  withIdentity: (item, existing) => ({
+    ...item,
+    id: existing?.id,
+    modelId: existing?.modelId ?? '',
+  }),
+}
+
+/**
+ * 整理导入的 Prompt 模板（导入的都是用户模板）
+ */
+const normalizePrompt = (raw: Record<string, unknown>): PromptData | string => {
+  const title = readString(raw, 'title')?.trim()
+  const prompt = readString(raw, 'prompt')
+  const model = readString(raw, 'model')
+  const modelParams = readString(raw, 'modelParams')
+  if (!title) return '缺少模板名称（title）'
+  if (!prompt?.trim()) return `模板「${title}」缺少模板内容（prompt）`
+  if (model === null) return `模板「${title}」的适用模型（model）必须为字符串`
+  if (modelParams === null) return `模板「${title}」的模型参数（modelParams）必须为字符串`
+  const paramsError = parseModelParams(modelParams).error
+  if (paramsError) return `模板「${title}」的模型参数有误：${paramsError}`
+  return { title, prompt, model, modelParams, isSystemPrompt: false }
+}
+
+/** Prompt 模板的导入定义（按模板名称判断是否为同一模板，系统模板不能覆盖） */
+export const PROMPT_IMPORT_SCHEMA: ImportSchema<PromptData> = {
+  label: 'Prompt模板',
+  listKey: 'prompts',
+  getName: (item) => item.title,
+  setName: (item, name) => ({ ...item, title: name }),
+  fields: [
+    { key: 'prompt', label: '模板内容' },
+    { key: 'model', label: '适用模型' },
+    { key: 'modelParams', label: '模型参数' },
+  ],
+  normalize: normalizePrompt,
+  withIdentity: (item, existing) => ({ ...item, id: existing?.id }),
+  isReadonly: (item) => item.isSystemPrompt === true,
+}
+
+/**
+ * 整理导入的附加规范
+ */
+const normalizeSpecification = (raw: Record<string, unknown>): SpecificationData | string => {
+  const name = readString(raw, 'name')?.trim()
+  const regex = readString(raw, 'regex')
+  const content = readString(raw, 'content')
+  const action = readString(raw, 'action')
+  const state = readOptional<boolean>(raw, 'state', 'boolean')
+  if (!name) return '缺少规范名称（name）'
+  if (regex === null) return `规范「${name}」的正则表达式（regex）必须为字符串`
+  const regexError = getRegexError(regex)
+  if (regexError) return `规范「${name}」的正则表达式有误，${regexError}`
+  if (!content?.trim()) return `规范「${name}」缺少规则内容（content）`
+  if (action !== 'append' && action !== 'replace') {
+    return `规范「${name}」的实现方式（action）必须为 append 或 replace`
+  }
+  if (state === null) return `规范「${name}」的启用状态（state）必须为 true 或 false`
+  return { name, regex, content, action, state: state ?? true }
+}
+
+/** 附加规范的导入定义（按规范名称判断是否为同一规范） */
+export const SPECIFICATION_IMPORT_SCHEMA: ImportSchema<SpecificationData> = {
+  label: '附加规范',
+  listKey: 'specifications',
+  getName: (item) => item.name,
+  setName: (item, name) => ({ ...item, name }),
+  fields: [
+    { key: 'regex', label: '正则表达式' },
+    { key: 'action', label: '实现方式' },
+    { key: 'content', label: '内容' },
+    { key: 'state', label: '启用状态', defaultValue: true },
+  ],
+  normalize: normalizeSpecification,
+  withIdentity: (item, existing) => ({ ...item, id: existing?.id }),
+}
@@ -0,0 +1,273 @@
+/**
+ * 按行比较代码
+ * 比较编辑器中的目标代码与回答中的代码，相邻的改动行合并为差异块，
+ * 每个差异块可以单独接受或拒绝，按选择结果合并出最终代码
+ */
+
+/**
+ * 差异行：equal-相同, add-新增（回答中的代码）, remove-删除（原代码）
+ */
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove'
+  content: string
+  /** 在原代码中的行号（从 1 开始），新增行没有 */
+  oldNumber?: number
+  /** 在新代码中的行号（从 1 开始），删除行没有 */
+  newNumber?: number
+  /** 所属差异块的序号，相同的行为 -1 */
+  hunk: number
+}
+
+/**
+ * 差异块
+ */
+export interface DiffHunk {
+  index: number
+  /** 原代码的起始行号和行数 */
+  oldStart: number
+  oldCount: number
+  /** 新代码的起始行号和行数 */
+  newStart: number
+  newCount: number
+}
+
+/**
+ * 比较结果
+ */
+export interface LineDiff {
+  lines: DiffLine[]
+  hunks: DiffHunk[]
+  /** 原代码的换行符 */
+  eol: string
+  /** 原代码是否以换行结尾 */
+  trailingNewline: boolean
+}
+
+/**
+ * 并排视图的一行：左侧为原代码，右侧为新代码
+ */
+export interface SplitDiffRow {
+  left?: DiffLine
+  right?: DiffLine
+  hunk: number
+}
+
+/**
+ * 视图中的一项：代码行、差异块标题、折叠的相同行
+ */
+export type DiffViewItem<T> =
+  | { kind: 'line'; row: T }
+  | { kind: 'hunk'; hunk: DiffHunk }
+  | { kind: 'fold'; count: number }
+
+/** 逐行比较的最大规模（行数乘积），超过时中间部分整体视为一个差异块 */
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * 拆分为行，末尾的换行不产生空行
+ */
+const splitLines = (text: string): string[] => {
+  if (!text) return []
+  const lines = text.split(/\r?\n/)
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * 最长公共子序列，返回相同行、删除行、新增行的操作序列
+ */
+const diffMiddle = (a: string[], b: string[]): Array<DiffLine['type']> => {
+  const n = a.length
+  const m = b.length
+  if (n * m > MAX_LCS_CELLS) {
+    return [...Array<DiffLine['type']>(n).fill('remove'), ...Array<DiffLine['type']>(m).fill('add')]
+  }
+
+  // dp[i][j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const width = m + 1
+  const dp = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i * width + j] =
+        a[i] === b[j]
+          ? dp[(i + 1) * width + j + 1]! + 1
+          : Math.max(dp[(i + 1) * width + j]!, dp[i * width + j + 1]!)
+    }
+  }
+
+  const ops: Array<DiffLine['type']> = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push('equal')
+      i++
+      j++
+    } else if (dp[(i + 1) * width + j]! >= dp[i * width + j + 1]!) {
+      ops.push('remove')
+      i++
+    } else {
+      ops.push('add')
+      j++
+    }
+  }
+  while (i++ < n) ops.push('remove')
+  while (j++ < m) ops.push('add')
+  return ops
+}
+
+/**
+ * 按行比较原代码和新代码
+ */
+export const diffLines = (oldText: string, newText: string): LineDiff => {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // 先去掉相同的开头和结尾，只对中间部分求最长公共子序列
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  const ops: Array<DiffLine['type']> = [
+    ...Array<DiffLine['type']>(prefix).fill('equal'),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...Array<DiffLine['type']>(suffix).fill('equal'),
+  ]
+
+  const lines: DiffLine[] = []
+  const hunks: DiffHunk[] = []
+  let oldNumber = 0
+  let newNumber = 0
+  let current: DiffHunk | null = null
+  for (const type of ops) {
+    if (type === 'equal') {
+      current = null
+      oldNumber++
+      newNumber++
+      lines.push({ type, content: a[oldNumber - 1]!, oldNumber, newNumber, hunk: -1 })
+      continue
+    }
+    if (!current) {
+      current = {
+        index: hunks.length,
+        oldStart: oldNumber + 1,
+        oldCount: 0,
+        newStart: newNumber + 1,
+        newCount: 0,
+      }
+      hunks.push(current)
+    }
+    if (type === 'remove') {
+      oldNumber++
+      current.oldCount++
+      lines.push({ type, content: a[oldNumber - 1]!, oldNumber, hunk: current.index })
+    } else {
+      newNumber++
+      current.newCount++
+      lines.push({ type, content: b[newNumber - 1]!, newNumber, hunk: current.index })
+    }
+  }
+
+  return {
+    lines,
+    hunks,
+    eol: oldText.includes('\r\n') ? '\r\n' : '\n',
+    trailingNewline: oldText.endsWith('\n'),
+  }
+}
+
+/**
+ * 按接受的差异块合并代码：接受的块使用新代码，其余保留原代码
+ */
+export const applyHunks = (diff: LineDiff, accepted: ReadonlySet<number>): string => {
+  const lines = diff.lines
+    .filter((line) => {
+      if (line.type === 'equal') return true
+      return accepted.has(line.hunk) === (line.type === 'add')
+    })
+    .map((line) => line.content)
+  if (lines.length === 0) return ''
+  return lines.join(diff.eol) + (diff.trailingNewline ? diff.eol : '')
+}
+
+/**
+ * 转换为并排视图的行：差异块中的删除行和新增行逐行并排
+ */
+export const toSplitRows = (lines: DiffLine[]): SplitDiffRow[] => {
+  const rows: SplitDiffRow[] = []
+  let index = 0
+  while (index < lines.length) {
+    const line = lines[index]!
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line, hunk: -1 })
+      index++
+      continue
+    }
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    while (index < lines.length && lines[index]!.hunk === line.hunk) {
+      const item = lines[index]!
+      ;(item.type === 'remove' ? removed : added).push(item)
+      index++
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row], hunk: line.hunk })
+    }
+  }
+  return rows
+}
+
+/**
+ * 生成视图项：每个差异块前插入标题，离差异块较远的相同行折叠
+ *
+ * @param rows 代码行（统一视图为差异行，并排视图为并排的行）
+ * @param hunks 差异块
+ * @param context 差异块前后保留的相同行数
+ */
+export const toDiffViewItems = <T extends { hunk: number }>(
+  rows: T[],
+  hunks: DiffHunk[],
+  context = 3
+): Array<DiffViewItem<T>> => {
+  // 每一行到最近差异块的距离
+  const distance = rows.map(() => Infinity)
+  let last = -Infinity
+  rows.forEach((row, index) => {
+    if (row.hunk >= 0) last = index
+    distance[index] = index - last
+  })
+  last = Infinity
+  for (let index = rows.length - 1; index >= 0; index--) {
+    if (rows[index]!.hunk >= 0) last = index
+    distance[index] = Math.min(distance[index]!, last - index)
+  }
+
+  const items: Array<DiffViewItem<T>> = []
+  let folded = 0
+  let previousHunk = -1
+  rows.forEach((row, index) => {
+    if (row.hunk < 0 && distance[index]! > context) {
+      folded++
+      return
+    }
+    if (folded > 0) {
+      items.push({ kind: 'fold', count: folded })
+      folded = 0
+    }
+    if (row.hunk >= 0 && row.hunk !== previousHunk) {
+      items.push({ kind: 'hunk', hunk: hunks[row.hunk]! })
+    }
+    previousHunk = row.hunk
+    items.push({ kind: 'line', row })
+  })
+  if (folded > 0) {
+    items.push({ kind: 'fold', count: folded })
+  }
+  return items
+}
@@ -0,0 +1,95 @@
+/**
+ * 流式 Markdown 分块
+ * 流式回答每收到一个分片都会变长，但只有最后一个块（段落、列表、代码块等）还可能变化，
+ * 之前的块已经完整。将回答拆分为完整块和末尾未完成块，渲染时只需重新渲染末尾块
+ */
+import type { Marked } from 'marked'
+
+/**
+ * 分块结果
+ */
+export interface MarkdownBlocks {
+  /** 已完整的块（原始 Markdown，依次拼接等于回答的前缀） */
+  stable: string[]
+  /** 末尾未完成的块 */
+  tail: string
+}
+
+/** 流式输出时显示在末尾的光标 */
+export const STREAMING_CURSOR = ' ▂'
+
+/** 代码块围栏（行首最多 3 个空格，至少 3 个 ` 或 ~） */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/
+
+/** 行尾可能正在输出的围栏开头（1~2 个 ` 或 ~） */
+const PARTIAL_FENCE_PATTERN = /\n? {0,3}(`{1,2}|~{1,2})$/
+
+/** 代码块中行尾可能正在输出的结束围栏 */
+const PARTIAL_CLOSING_FENCE_PATTERN = /\n {0,3}(`+|~+)$/
+
+/**
+ * 将回答拆分为完整块和末尾未完成块
+ * 最后一个非空白块之前的块都视为完整；无法可靠拆分时整段作为末尾块
+ *
+ * @param marked marked 实例（使用与渲染相同的配置分词）
+ * @param source 回答内容
+ */
+export const splitMarkdownBlocks = (marked: Marked, source: string): MarkdownBlocks => {
+  const tokens = marked.lexer(source)
+
+  // 每个块连同其后的空白合并为一个完整块
+  const blocks: string[] = []
+  for (const token of tokens) {
+    if (token.type === 'space' && blocks.length > 0) {
+      blocks[blocks.length - 1] += token.raw
+    } else {
+      blocks.push(token.raw)
+    }
+  }
+
+  const stable = blocks.slice(0, -1)
+  const stableSource = stable.join('')
+  // 分词会统一换行符，拼接结果与原文不一致时放弃拆分
+  if (!source.startsWith(stableSource)) {
+    return { stable: [], tail: source }
+  }
+  return { stable, tail: source.slice(stableSource.length) }
+}
+
+/**
+ * 获取代码块未闭合时的围栏（用于补全），已闭合时返回空字符串
+ */
+const getOpenFence = (markdown: string): string => {
+  let openFence = ''
+  for (const line of markdown.split('\n')) {
+    const match = FENCE_PATTERN.exec(line)
+    if (!match) continue
+
+    const fence = match[1] as string
+    const info = (match[2] ?? '').trim()
+    if (!openFence) {
+      // 反引号围栏的信息字符串中不能包含反引号
+      if (!(fence.startsWith('`') && info.includes('`'))) {
+        openFence = fence
+      }
+    } else if (fence[0] === openFence[0] && fence.length >= openFence.length && !info) {
+      openFence = ''
+    }
+  }
+  return openFence
+}
+
+/**
+ * 将末尾未完成块转换为适合流式显示的 Markdown
+ * - 未闭合的代码块补全围栏，并隐藏正在输出的结束围栏；光标不放入代码块中
+ * - 隐藏行尾尚未输出完整的围栏开头（1~2 个 ` 或 ~），避免先显示为行内代码
+ * - 其余情况在末尾追加光标
+ */
+export const toStreamingMarkdown = (tail: string): string => {
+  const openFence = getOpenFence(tail)
+  if (openFence) {
+    const code = tail.replace(PARTIAL_CLOSING_FENCE_PATTERN, '')
+    return `${code}${code.endsWith('\n') ? '' : '\n'}${openFence}`
+  }
+  return tail.replace(PARTIAL_FENCE_PATTERN, '').trimEnd() + STREAMING_CURSOR
+}
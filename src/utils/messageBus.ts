@@ -0,0 +1,242 @@
+/**
+ * messageBus - 消息总线
+ * 全局只注册一个 window message 监听，入站消息按注册表校验、经中间件处理后，
+ * 按消息类型分发给订阅者
+ */
+import {
+  validateIncomingMessage,
+  type B2FMessage,
+  type B2FMessageMap,
+  type B2FMessageType,
+} from '@/utils/messageSchema'
+
+/**
+ * 指定类型的入站消息
+ */
+export type MessageOf<K extends B2FMessageType> = Extract<B2FMessage, { message: K }>
+
+/**
+ * 消息订阅函数
+ */
+export type MessageListener<K extends B2FMessageType> = (
+  data: B2FMessageMap[K],
+  message: MessageOf<K>
+) => void | Promise<void>
+
+/**
+ * 消息中间件
+ * 在分发给订阅者之前执行，调用 next 继续处理，不调用则丢弃该消息
+ */
+export type MessageMiddleware = (
+  message: B2FMessage,
+  next: () => Promise<void>
+) => void | Promise<void>
+
+/**
+ * 订阅配置
+ */
+export interface SubscribeOptions {
+  /** 优先级，数值越大越先执行，相同优先级按订阅顺序执行，默认 0 */
+  priority?: number
+  /** 是否只处理一次，处理后自动取消订阅 */
+  once?: boolean
+}
+
+/**
+ * 取消订阅函数
+ */
+export type Unsubscribe = () => void
+
+/**
+ * 订阅记录
+ */
+interface Subscription {
+  listener: (data: unknown, message: B2FMessage) => void | Promise<void>
+  priority: number
+  once: boolean
+  /** 是否仍有效（分发过程中取消订阅的不再执行） */
+  active: boolean
+}
+
+/**
+ * 创建消息总线
+ *
+ * @param target 监听 message 事件的对象，默认为 window
+ */
+export function createMessageBus(target: Pick<Window, 'addEventListener'> = window) {
+  const subscriptions = new Map<B2FMessageType, Subscription[]>()
+  const middlewares: MessageMiddleware[] = []
+  let isListening = false
+
+  /**
+   * 依次执行订阅者，单个订阅者出错不影响后续订阅者
+   */
+  const deliver = async (message: B2FMessage): Promise<void> => {
+    const list = subscriptions.get(message.message)
+    if (!list) return
+
+    // 使用快照，避免订阅者在执行中增删订阅影响本次分发
+    for (const subscription of list.slice()) {
+      if (!subscription.active) continue
+      if (subscription.once) {
+        removeSubscription(message.message, subscription)
+      }
+      try {
+        await subscription.listener(message.data, message)
+      } catch (error) {
+        console.error('消息处理失败:', message.message, error)
+      }
+    }
+  }
+
+  /**
+   * 分发一条入站消息：校验 → 中间件 → 订阅者
+   *
+   * @param raw 原始消息数据（MessageEvent.data）
+   */
+  const dispatch = async (raw: unknown): Promise<void> => {
+    const message = validateIncomingMessage(raw)
+    if (!message) return
+
+    const run = async (index: number): Promise<void> => {
+      const middleware = middlewares[index]
+      if (!middleware) {
+        await deliver(message)
+        return
+      }
+
+      let called = false
+      await middleware(message, async () => {
+        // 同一个中间件重复调用 next 时只生效一次
+        if (called) return
+        called = true
+        await run(index + 1)
+      })
+    }
+
+    try {
+      await run(0)
+    } catch (error) {
+      console.error('消息中间件执行失败:', message.message, error)
+    }
+  }
+
+  const handleMessage = (event: MessageEvent): void => {
+    void dispatch(event.data)
+  }
+
+  /**
+   * 注册 window 监听（只注册一次）
+   */
+  const ensureListening = (): void => {
+    if (isListening) return
+    target.addEventListener('message', handleMessage)
+    isListening = true
+  }
+
+  /**
+   * 移除订阅记录
+   */
+  const removeSubscription = (type: B2FMessageType, subscription: Subscription): void => {
+    subscription.active = false
+    const list = subscriptions.get(type)
+    if (!list) return
+    const index = list.indexOf(subscription)
+    if (index !== -1) {
+      list.splice(index, 1)
+    }
+    if (list.length === 0) {
+      subscriptions.delete(type)
+    }
+  }
+
+  /**
+   * 订阅指定类型的消息
+   *
+   * @param type 消息类型
+   * @param listener 订阅函数，data 类型由消息注册表决定
+   * @param options 订阅配置
+   * @returns 取消订阅函数
+   */
+  const on = <K extends B2FMessageType>(
+    type: K,
+    listener: MessageListener<K>,
+    options: SubscribeOptions = {}
+  ): Unsubscribe => {
+    ensureListening()
+
+    const subscription: Subscription = {
+      listener: listener as Subscription['listener'],
+      priority: options.priority ?? 0,
+      once: options.once ?? false,
+      active: true,
+    }
+
+    const list = subscriptions.get(type) ?? []
+    // 插入到第一个优先级更低的订阅之前，保证相同优先级按订阅顺序执行
+    const index = list.findIndex((item) => item.priority < subscription.priority)
+    if (index === -1) {
+      list.push(subscription)
+    } else {
+      list.splice(index, 0, subscription)
+    }
+    subscriptions.set(type, list)
+
+    return () => removeSubscription(type, subscription)
+  }
+
+  /**
+   * 订阅指定类型的消息，只处理一次
+   */
+  const once = <K extends B2FMessageType>(
+    type: K,
+    listener: MessageListener<K>,
+    options: Omit<SubscribeOptions, 'once'> = {}
+  ): Unsubscribe => on(type, listener, { ...options, once: true })
+
+  /**
+   * 注册中间件，按注册顺序执行
+   *
+   * @returns 移除中间件函数
+   */
+  const use = (middleware: MessageMiddleware): (() => void) => {
+    ensureListening()
+    middlewares.push(middleware)
+
+    return () => {
+      const index = middlewares.indexOf(middleware)
+      if (index !== -1) {
+        middlewares.splice(index, 1)
+      }
+    }
+  }
+
+  return {
+    on,
+    once,
+    use,
+    dispatch,
+  }
+}
+
+/**
+ * 消息总线实例类型
+ */
+export type MessageBus = ReturnType<typeof createMessageBus>
+
+/**
+ * 全局消息总线
+ */
+export const messageBus = createMessageBus()
+
+/**
+ * 日志中间件：在控制台输出收到的消息
+ *
+ * @param label 日志前缀
+ */
+export const createLoggingMiddleware =
+  (label = '收到消息:'): MessageMiddleware =>
+  async (message, next) => {
+    console.log(label, message.message, message.data)
+    await next()
+  }
@@ -0,0 +1,746 @@
+/**
+ * 消息协议注册表
+ * 将每个消息类型映射到对应的数据类型（分 F2B、B2F 两个方向），
+ * 并提供接收消息时的运行时校验，格式错误的消息会被记录并丢弃
+ */
+import * as OP from './messageType'
+import type {
+  AnswerUsage,
+  ChatMessageData,
+  ChatModel,
+  HistoryPage,
+  HistoryQuery,
+  MentionItem,
+  PromptItem,
+  SelectionData,
+} from '@/types/chat'
+import type {
+  ModelData,
+  ModelTestErrorType,
+  PromptData,
+  RefreshType,
+  SettingsData,
+  SpecificationData,
+  VendorModelInfo,
+  WorkspaceConfig,
+} from '@/types/settings'
+
+/** 空消息数据 */
+export type EmptyPayload = Record<string, never>
+
+// ========== 消息数据类型 ==========
+
+/** 发送问题 */
+export interface AskQuestionPayload {
+  message: string
+  editTime: number
+  chatId: string
+  /** 所属会话（后端在响应中原样带回） */
+  sessionId?: string
+  /** 会话已对应的历史会话，为空时由后端新建 */
+  conversationId?: string
+  /** 会话使用的模型，为空时使用后端的当前模型 */
+  modelName?: string
+  /** 上一轮问答的聊天ID，后端据此截取分支上的上下文；为空表示会话的第一轮 */
+  parentChatId?: string
+  /** 未内联到问题中的附件（图片、过大或未读取内容的文件） */
+  attachments?: MessageAttachment[]
+  /** 问题中的 @引用，问题文本中以 @<resourceId> 占位，由后端解析为内容后替换 */
+  mentions?: MessageMention[]
+  /** 问题引用的代码片段，问题文本中同样以 @<resourceId> 占位 */
+  codeSelections?: MessageCodeSelection[]
+}
+
+/** 随问题发送的代码片段 */
+export interface MessageCodeSelection {
+  /** 问题文本中的占位资源ID */
+  resourceId: string
+  filePath?: string
+  startLine?: number
+  endLine?: number
+  /** 代码语言ID */
+  language?: string
+  code: string
+}
+
+/** 随问题发送的 @引用 */
+export interface MessageMention extends MentionItem {
+  /** 问题文本中的占位资源ID */
+  resourceId: string
+}
+
+/** 随问题发送的附件 */
+export interface MessageAttachment {
+  type: 'file' | 'image'
+  name: string
+  /** 工作区文件路径（文件由后端按路径读取） */
+  filePath?: string
+  /** 图片数据，data URL 格式（仅多模态模型） */
+  data?: string
+  mimeType?: string
+}
+
+/** 添加附件请求，paths 为空时由后端打开文件选择框 */
+export interface AttachFilesPayload {
+  paths?: string[]
+  /** 是否可以选择图片，当前模型不支持图片输入时为 false（文件选择框不显示图片） */
+  includeImages?: boolean
+}
+
+/** 后端返回的附件 */
+export interface AttachedFile {
+  type: 'file' | 'image'
+  name: string
+  filePath: string
+  /** 文本文件内容，文件过大时为空 */
+  content?: string
+  languageId?: string
+  /** 图片数据，data URL 格式 */
+  data?: string
+  mimeType?: string
+  size?: number
+}
+
+/** 添加附件响应，用户取消选择时 files 为空数组 */
+export interface AttachFilesResponse {
+  files: AttachedFile[]
+}
+
+/** 搜索 @引用请求 */
+export interface SearchMentionsPayload {
+  /** 输入的关键字（@ 之后的文本），为空时返回默认候选（如打开的文件） */
+  query: string
+  /** 返回条数上限 */
+  limit?: number
+}
+
+/** 搜索 @引用响应 */
+export interface SearchMentionsResponse {
+  items: MentionItem[]
+}
+
+/** 问答响应（流式分片，以 [DONE] 结束） */
+export interface AskQuestionResponse {
+  chatId: string
+  text?: string
+  answer?: string
+  /** 所属会话 */
+  sessionId?: string
+  /** 后端为新会话分配的历史会话ID */
+  conversationId?: string
+  /** 用量统计，随回答结束标记（[DONE]）返回 */
+  usage?: AnswerUsage
+}
+
+/** 停止生成回答 */
+export interface StopAnswerPayload {
+  chatId: string
+  sessionId?: string
+}
+
+/** 停止生成回答确认（stopped 为 false 表示回答已先一步结束） */
+export interface StopAnswerResponse {
+  chatId: string
+  stopped: boolean
+}
+
+/** 使用模板提问 */
+export interface PromptQuestionPayload {
+  code: string
+  promptId: string | number
+  editTime: number
+  /** 所属会话（后端在响应中原样带回） */
+  sessionId?: string
+  /** 会话使用的模型，为空时使用后端的当前模型 */
+  modelName?: string
+  /** 上一轮问答的聊天ID（后端在响应中原样带回），为空表示会话的第一轮 */
+  parentChatId?: string
+  /** 模板变量的值，键为变量的原始写法（如 selection、input:目标框架），由后端渲染模板 */
+  variables?: Record<string, string>
+}
+
+/** 模板生成的问题 */
+export interface PromptQuestionResponse {
+  question: string
+  chatId: string
+  /** 所属会话 */
+  sessionId?: string
+  /** 上一轮问答的聊天ID */
+  parentChatId?: string
+}
+
+/** 回答内容相关操作（复制、插入、比较） */
+export interface AnswerContentPayload {
+  content: string
+  chatId: string
+}
+
+/**
+ * 获取代码目标范围：replace-与选中的代码（未选中时为当前文件）比较, insert-插入到光标处
+ */
+export interface CodeTargetQuery extends AnswerContentPayload {
+  mode: 'replace' | 'insert'
+}
+
+/** 编辑器中的目标范围（行号从 1 开始，endLine 小于 startLine 表示光标处的空范围） */
+export interface CodeTarget {
+  filePath: string
+  languageId?: string
+  startLine: number
+  endLine: number
+  /** 目标范围内的代码 */
+  content: string
+  /** 文档版本，应用时用于判断文件是否已被修改 */
+  version?: number
+}
+
+/** 应用代码修改：插件端确认目标范围未被修改后，用合并后的代码替换 */
+export interface ApplyCodeEditPayload {
+  chatId: string
+  target: CodeTarget
+  content: string
+}
+
+/** 代码修改的应用结果 */
+export interface ApplyCodeEditResponse {
+  applied: boolean
+  /** 未应用的原因，如文件已被修改 */
+  message?: string
+}
+
+/** 查询文件状态（路径相对于工作区根目录） */
+export interface FileStatusQuery {
+  chatId: string
+  paths: string[]
+}
+
+/** 文件状态 */
+export interface FileStatus {
+  filePath: string
+  exists: boolean
+}
+
+/** 文件状态响应 */
+export interface FileStatusResponse {
+  files: FileStatus[]
+}
+
+/** 多文件修改中的一个文件：文件不存在时新建，存在时用 content 替换整个文件 */
+export interface FileChange {
+  filePath: string
+  /** 代码块标注的语言 */
+  language?: string
+  content: string
+}
+
+/** 应用多文件修改 */
+export interface ApplyChangeSetPayload {
+  chatId: string
+  changes: FileChange[]
+}
+
+/** 单个文件的写入结果 */
+export interface FileChangeResult {
+  filePath: string
+  applied: boolean
+  /** 未写入的原因 */
+  message?: string
+}
+
+/** 多文件修改的应用结果，有文件写入时返回撤销标识 */
+export interface ApplyChangeSetResponse {
+  results: FileChangeResult[]
+  undoId?: string
+}
+
+/** 撤销多文件修改 */
+export interface UndoChangeSetPayload {
+  chatId: string
+  undoId: string
+}
+
+/** 撤销结果 */
+export interface UndoChangeSetResponse {
+  undone: boolean
+  /** 未撤销的原因，如文件已被再次修改 */
+  message?: string
+}
+
+/** 模型列表响应 */
+export interface ModelsResponse {
+  currModel: string
+  modelOptions: ChatModel[]
+}
+
+/** 测试模型连接结果 */
+export interface TestModelResponse {
+  success: boolean
+  /** 请求耗时（毫秒） */
+  latency?: number
+  /** 失败原因 */
+  errorType?: ModelTestErrorType
+  /** 失败时厂商接口返回的错误信息 */
+  message?: string
+  /** 成功时厂商接口返回的模型信息 */
+  modelInfo?: VendorModelInfo
+}
+
+/** 厂商的可用模型列表 */
+export interface VendorModelsResponse {
+  models: VendorModelInfo[]
+}
+
+/** 模板列表响应 */
+export interface PromptsResponse {
+  sysPrompts: PromptItem[]
+  userPrompts: PromptItem[]
+}
+
+/** 错误消息 */
+export interface ErrorPayload {
+  operationType?: string
+  error?: string
+  errorStack?: string
+}
+
+/** 消息提示 */
+export interface ShowMessagePayload {
+  type: 'success' | 'warning' | 'info' | 'error'
+  message: string
+}
+
+/** 登录响应 */
+export interface LoginResponse {
+  status: boolean
+  message?: string
+}
+
+/** 模型列表刷新 */
+export interface RefreshModelsPayload {
+  type: RefreshType
+  models: ModelData[]
+}
+
+/** 用户 Prompt 模板列表刷新（兼容 prompts / userPrompt 两种字段） */
+export interface RefreshPromptsPayload {
+  type: RefreshType
+  prompts?: PromptData[]
+  userPrompt?: PromptData[]
+}
+
+/** 附加规范列表刷新 */
+export interface RefreshSpecificationsPayload {
+  type: RefreshType
+  specifications: SpecificationData[]
+}
+
+/** 附加规范的上下文 */
+export interface SpecificationContext {
+  /** 编辑器当前文件的路径（相对于工作区根目录），没有打开的文件时为空 */
+  activeFilePath?: string
+  /** 应用附加规范前的基础系统提示词 */
+  systemPrompt: string
+  /** 用户和工作区的附加规范，聊天页据此估算上下文用量 */
+  specifications?: SpecificationData[]
+}
+
+/** 保存导入项：带标识（id / modelId）的项覆盖已有项，不带标识的项新增 */
+export interface SaveImportedPayload<T> {
+  items: T[]
+}
+
+/** 历史会话变更 */
+export interface RefreshHistoryPayload {
+  type: 'rename' | 'delete' | 'pin'
+  conversationId: string
+}
+
+// ========== 消息注册表 ==========
+
+/**
+ * 声明消息的数据类型（只用于类型推导，运行时的值无意义）
+ */
+const payload = <T>(): T => undefined as T
+
+/**
+ * 前端到后端（F2B）消息类型与数据类型登记
+ * 消息类型映射和忽略前端自身消息的类型集合都由此生成，新增 F2B 消息只需在这里登记
+ */
+const F2B_MESSAGES = {
+  [OP.HICODE_ASK_QUESTION_F2B_REQ]: payload<AskQuestionPayload>(),
+  [OP.HICODE_SEND_MESSAGE_F2B_REQ]: payload<AskQuestionPayload>(),
+  [OP.HICODE_FINISHED_CHAT_F2B]: payload<{ chatId?: string; sessionId?: string }>(),
+  [OP.HICODE_STOP_ANSWER_F2B_REQ]: payload<StopAnswerPayload>(),
+  [OP.HICODE_REANSWER_F2B_REQ]: payload<{ question?: string; chatId: string }>(),
+  [OP.HICODE_COPY_ANSWER_F2B]: payload<AnswerContentPayload>(),
+  [OP.HICODE_SELECT_ANSWER_F2B]: payload<AnswerContentPayload>(),
+  [OP.HICODE_COMPARE_ANSWER_F2B_REQ]: payload<AnswerContentPayload>(),
+  [OP.HICODE_INSERT_CODE_F2B_REQ]: payload<AnswerContentPayload>(),
+  [OP.HICODE_GET_CODE_TARGET_F2B_REQ]: payload<CodeTargetQuery>(),
+  [OP.HICODE_APPLY_CODE_EDIT_F2B_REQ]: payload<ApplyCodeEditPayload>(),
+  [OP.HICODE_GET_FILE_STATUS_F2B_REQ]: payload<FileStatusQuery>(),
+  [OP.HICODE_APPLY_CHANGE_SET_F2B_REQ]: payload<ApplyChangeSetPayload>(),
+  [OP.HICODE_UNDO_CHANGE_SET_F2B_REQ]: payload<UndoChangeSetPayload>(),
+  [OP.HICODE_OPEN_LINK_F2B]: payload<{ url: string; chatId?: string }>(),
+  [OP.HICODE_ATTACH_FILES_F2B_REQ]: payload<AttachFilesPayload>(),
+  [OP.HICODE_SEARCH_MENTIONS_F2B_REQ]: payload<SearchMentionsPayload>(),
+  [OP.HICODE_GET_MODELS_F2B_REQ]: payload<EmptyPayload>(),
+  [OP.HICODE_CHANGE_MODEL_F2B_REQ]: payload<{ modelName: string }>(),
+  /** 模型配置中的 API Key 只在重新输入时发送，未发送时插件端按 modelId 使用已保存的 API Key */
+  [OP.HICODE_TEST_MODEL_F2B_REQ]: payload<ModelData>(),
+  [OP.HICODE_LIST_VENDOR_MODELS_F2B_REQ]: payload<ModelData>(),
+  [OP.HICODE_ADD_MODEL_F2B_REQ]: payload<ModelData>(),
+  [OP.HICODE_EDIT_MODEL_F2B_REQ]: payload<ModelData>(),
+  [OP.HICODE_DELETE_MODEL_F2B_REQ]: payload<{ modelId: string }>(),
+  [OP.HICODE_SAVE_IMPORTED_MODELS_F2B_REQ]: payload<SaveImportedPayload<ModelData>>(),
+  [OP.HICODE_EXPORT_MODELS_F2B_REQ]: payload<ModelData[]>(),
+  [OP.HICODE_CHANGE_FILL_MODEL_F2B_REQ]: payload<{ value: string }>(),
+  [OP.HICODE_CONSOLE_LOG]: payload<{ data: unknown }>(),
+  [OP.HICODE_CLEAR_SELECTION]: payload<EmptyPayload>(),
+  [OP.HICODE_LOGIN_F2B_REQ]: payload<{ userName: string; password: string }>(),
+  [OP.HICODE_GET_SETTINGS_F2B_REQ]: payload<EmptyPayload>(),
+  [OP.HICODE_CHANGE_COMPLETE_F2B_REQ]: payload<{ value: 'auto' | 'custom' }>(),
+  [OP.HICODE_GET_PROMPTS_F2B_REQ]: payload<EmptyPayload>(),
+  [OP.HICODE_SYS_PROMPT_F2B_REQ]: payload<PromptQuestionPayload>(),
+  [OP.HICODE_USER_PROMPT_F2B_REQ]: payload<PromptQuestionPayload>(),
+  [OP.HICODE_ADD_USER_PROMPT_F2B_REQ]: payload<PromptData>(),
+  [OP.HICODE_EDIT_USER_PROMPT_F2B_REQ]: payload<PromptData>(),
+  [OP.HICODE_DELETE_USER_PROMPT_F2B_REQ]: payload<{ id?: string }>(),
+  [OP.HICODE_SAVE_IMPORTED_PROMPTS_F2B_REQ]: payload<SaveImportedPayload<PromptData>>(),
+  [OP.HICODE_IMPORT_PROMPTS_F2B_REQ]: payload<{ value: string }>(),
+  [OP.HICODE_EXPORT_PROMPTS_F2B_REQ]: payload<PromptData[]>(),
+  [OP.HICODE_ADD_SPECIFICATION_F2B_REQ]: payload<SpecificationData>(),
+  [OP.HICODE_EDIT_SPECIFICATION_F2B_REQ]: payload<SpecificationData>(),
+  [OP.HICODE_DELETE_SPECIFICATION_F2B_REQ]: payload<{ id?: string }>(),
+  [OP.HICODE_SAVE_IMPORTED_SPECIFICATIONS_F2B_REQ]:
+    payload<SaveImportedPayload<SpecificationData>>(),
+  [OP.HICODE_IMPORT_SPECIFICATIONS_F2B_REQ]: payload<{ value: string }>(),
+  [OP.HICODE_EXPORT_SPECIFICATIONS_F2B_REQ]: payload<SpecificationData[]>(),
+  [OP.HICODE_GET_SPECIFICATION_CONTEXT_F2B_REQ]: payload<EmptyPayload>(),
+  [OP.HICODE_GET_WORKSPACE_CONFIG_F2B_REQ]: payload<EmptyPayload>(),
+  [OP.HICODE_OPEN_WORKSPACE_CONFIG_F2B]: payload<{ configPath: string }>(),
+  [OP.HICODE_GET_HISTORY_F2B_REQ]: payload<HistoryQuery>(),
+  [OP.HICODE_OPEN_HISTORY_CHAT_F2B_REQ]: payload<{ conversationId: string }>(),
+  [OP.HICODE_RENAME_HISTORY_F2B_REQ]: payload<{ conversationId: string; title: string }>(),
+  [OP.HICODE_DELETE_HISTORY_F2B_REQ]: payload<{ conversationId: string }>(),
+  [OP.HICODE_PIN_HISTORY_F2B_REQ]: payload<{ conversationId: string; pinned: boolean }>(),
+}
+
+/**
+ * 前端到后端（F2B）消息类型与数据类型映射
+ */
+export type F2BMessageMap = typeof F2B_MESSAGES
+
+/**
+ * 后端到前端（B2F）消息类型与数据类型映射
+ */
+export interface B2FMessageMap {
+  [OP.HICODE_ASK_QUESTION_B2F_RES]: AskQuestionResponse
+  [OP.HICODE_STOP_ANSWER_B2F_RES]: StopAnswerResponse
+  [OP.HICODE_ATTACH_FILES_B2F_RES]: AttachFilesResponse
+  [OP.HICODE_SEARCH_MENTIONS_B2F_RES]: SearchMentionsResponse
+  [OP.HICODE_GET_CODE_TARGET_B2F_RES]: CodeTarget
+  [OP.HICODE_APPLY_CODE_EDIT_B2F_RES]: ApplyCodeEditResponse
+  [OP.HICODE_GET_FILE_STATUS_B2F_RES]: FileStatusResponse
+  [OP.HICODE_APPLY_CHANGE_SET_B2F_RES]: ApplyChangeSetResponse
+  [OP.HICODE_UNDO_CHANGE_SET_B2F_RES]: UndoChangeSetResponse
+  [OP.HICODE_CHAT_WITH_STREAM_B2F]: unknown
+  [OP.HICODE_GET_MODELS_B2F_RES]: ModelsResponse
+  [OP.HICODE_REFRESH_MODELS_B2F_RES]: RefreshModelsPayload
+  [OP.HICODE_TEST_MODEL_B2F_RES]: TestModelResponse
+  [OP.HICODE_LIST_VENDOR_MODELS_B2F_RES]: VendorModelsResponse
+  [OP.HICODE_ERROR_B2F]: ErrorPayload
+  [OP.HICODE_NEW_CONVERSATION]: unknown
+  [OP.HICODE_SELECTION_CHANGE]: SelectionData
+  [OP.HICODE_OPEN_HISTORY]: unknown
+  [OP.HICODE_GET_HIS_CHAT_BY_ID_B2F_RES]: ChatMessageData[] | null
+  [OP.HICODE_LOGIN_B2F_RES]: LoginResponse
+  [OP.HICODE_GET_SETTINGS_B2F_RES]: SettingsData
+  [OP.HICODE_GET_PROMPTS_B2F_RES]: PromptsResponse
+  [OP.HICODE_SYS_PROMPT_B2F_RES]: PromptQuestionResponse
+  [OP.HICODE_USER_PROMPT_B2F_RES]: PromptQuestionResponse
+  [OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES]: RefreshPromptsPayload
+  [OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES]: RefreshSpecificationsPayload
+  [OP.HICODE_GET_SPECIFICATION_CONTEXT_B2F_RES]: SpecificationContext
+  [OP.HICODE_REFRESH_WORKSPACE_CONFIG_B2F_RES]: WorkspaceConfig
+  [OP.HICODE_SHOW_MESSAGE_B2F]: ShowMessagePayload
+  [OP.HICODE_GET_LAST_VERSION_B2F]: unknown
+  [OP.HICODE_GET_HISTORY_B2F_RES]: HistoryPage
+  [OP.HICODE_REFRESH_HISTORY_B2F_RES]: RefreshHistoryPayload
+}
+
+/** F2B 消息类型 */
+export type F2BMessageType = keyof F2BMessageMap
+
+/** B2F 消息类型 */
+export type B2FMessageType = keyof B2FMessageMap
+
+/**
+ * 请求消息与其响应消息的对应关系
+ * request() 据此确定响应数据类型，并只接受对应类型的响应
+ */
+export const REQUEST_RESPONSE_TYPES = {
+  [OP.HICODE_STOP_ANSWER_F2B_REQ]: OP.HICODE_STOP_ANSWER_B2F_RES,
+  [OP.HICODE_ATTACH_FILES_F2B_REQ]: OP.HICODE_ATTACH_FILES_B2F_RES,
+  [OP.HICODE_SEARCH_MENTIONS_F2B_REQ]: OP.HICODE_SEARCH_MENTIONS_B2F_RES,
+  [OP.HICODE_GET_CODE_TARGET_F2B_REQ]: OP.HICODE_GET_CODE_TARGET_B2F_RES,
+  [OP.HICODE_APPLY_CODE_EDIT_F2B_REQ]: OP.HICODE_APPLY_CODE_EDIT_B2F_RES,
+  [OP.HICODE_GET_FILE_STATUS_F2B_REQ]: OP.HICODE_GET_FILE_STATUS_B2F_RES,
+  [OP.HICODE_APPLY_CHANGE_SET_F2B_REQ]: OP.HICODE_APPLY_CHANGE_SET_B2F_RES,
+  [OP.HICODE_UNDO_CHANGE_SET_F2B_REQ]: OP.HICODE_UNDO_CHANGE_SET_B2F_RES,
+  [OP.HICODE_GET_MODELS_F2B_REQ]: OP.HICODE_GET_MODELS_B2F_RES,
+  [OP.HICODE_TEST_MODEL_F2B_REQ]: OP.HICODE_TEST_MODEL_B2F_RES,
+  [OP.HICODE_LIST_VENDOR_MODELS_F2B_REQ]: OP.HICODE_LIST_VENDOR_MODELS_B2F_RES,
+  [OP.HICODE_ADD_MODEL_F2B_REQ]: OP.HICODE_REFRESH_MODELS_B2F_RES,
+  [OP.HICODE_EDIT_MODEL_F2B_REQ]: OP.HICODE_REFRESH_MODELS_B2F_RES,
+  [OP.HICODE_DELETE_MODEL_F2B_REQ]: OP.HICODE_REFRESH_MODELS_B2F_RES,
+  [OP.HICODE_SAVE_IMPORTED_MODELS_F2B_REQ]: OP.HICODE_REFRESH_MODELS_B2F_RES,
+  [OP.HICODE_LOGIN_F2B_REQ]: OP.HICODE_LOGIN_B2F_RES,
+  [OP.HICODE_GET_SETTINGS_F2B_REQ]: OP.HICODE_GET_SETTINGS_B2F_RES,
+  [OP.HICODE_GET_PROMPTS_F2B_REQ]: OP.HICODE_GET_PROMPTS_B2F_RES,
+  [OP.HICODE_ADD_USER_PROMPT_F2B_REQ]: OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES,
+  [OP.HICODE_EDIT_USER_PROMPT_F2B_REQ]: OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES,
+  [OP.HICODE_DELETE_USER_PROMPT_F2B_REQ]: OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES,
+  [OP.HICODE_SAVE_IMPORTED_PROMPTS_F2B_REQ]: OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES,
+  [OP.HICODE_ADD_SPECIFICATION_F2B_REQ]: OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+  [OP.HICODE_EDIT_SPECIFICATION_F2B_REQ]: OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+  [OP.HICODE_DELETE_SPECIFICATION_F2B_REQ]: OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+  [OP.HICODE_SAVE_IMPORTED_SPECIFICATIONS_F2B_REQ]: OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES,
+  [OP.HICODE_GET_SPECIFICATION_CONTEXT_F2B_REQ]: OP.HICODE_GET_SPECIFICATION_CONTEXT_B2F_RES,
+  [OP.HICODE_GET_WORKSPACE_CONFIG_F2B_REQ]: OP.HICODE_REFRESH_WORKSPACE_CONFIG_B2F_RES,
+  [OP.HICODE_GET_HISTORY_F2B_REQ]: OP.HICODE_GET_HISTORY_B2F_RES,
+  [OP.HICODE_OPEN_HISTORY_CHAT_F2B_REQ]: OP.HICODE_GET_HIS_CHAT_BY_ID_B2F_RES,
+  [OP.HICODE_RENAME_HISTORY_F2B_REQ]: OP.HICODE_REFRESH_HISTORY_B2F_RES,
+  [OP.HICODE_DELETE_HISTORY_F2B_REQ]: OP.HICODE_REFRESH_HISTORY_B2F_RES,
+  [OP.HICODE_PIN_HISTORY_F2B_REQ]: OP.HICODE_REFRESH_HISTORY_B2F_RES,
+} as const satisfies Partial<Record<F2BMessageType, B2FMessageType>>
+
+/** 可等待响应的请求消息类型 */
+export type F2BRequestType = keyof typeof REQUEST_RESPONSE_TYPES
+
+/** 请求消息对应的响应数据类型 */
+export type ResponseData<K extends F2BRequestType> =
+  B2FMessageMap[(typeof REQUEST_RESPONSE_TYPES)[K]]
+
+/**
+ * 已校验的 B2F 消息（按 message 字段区分的联合类型，可通过 message 收窄 data 类型）
+ */
+export type B2FMessage = {
+  [K in B2FMessageType]: { message: K; data: B2FMessageMap[K]; token?: string }
+}[B2FMessageType]
+
+// ========== 运行时校验 ==========
+
+type Validator = (data: unknown) => boolean
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOptional =
+  (validator: Validator): Validator =>
+  (value) =>
+    value === undefined || value === null || validator(value)
+
+const isString: Validator = (value) => typeof value === 'string'
+
+const isBoolean: Validator = (value) => typeof value === 'boolean'
+
+const isArrayOf =
+  (validator: Validator): Validator =>
+  (value) =>
+    Array.isArray(value) && value.every(validator)
+
+/**
+ * 校验对象字段
+ */
+const isShape =
+  (shape: Record<string, Validator>): Validator =>
+  (value) =>
+    isRecord(value) && Object.entries(shape).every(([key, validator]) => validator(value[key]))
+
+const isAny: Validator = () => true
+
+const isModel = isShape({ modelName: isString })
+const isPromptData = isShape({ title: isString })
+const isSpecificationData = isShape({ name: isString })
+const isChatMessage = isShape({ chatId: isString })
+const isAttachedFile = isShape({ type: isString, name: isString, filePath: isString })
+const isMentionItem = isShape({ id: isString, kind: isString, label: isString })
+const isFileStatus = isShape({ filePath: isString, exists: isBoolean })
+const isFileChangeResult = isShape({
+  filePath: isString,
+  applied: isBoolean,
+  message: isOptional(isString),
+})
+const isPromptItem = isShape({ title: isString })
+const isNumber: Validator = (value) => typeof value === 'number'
+const isUsage = isShape({
+  promptTokens: isOptional(isNumber),
+  completionTokens: isOptional(isNumber),
+  latency: isOptional(isNumber),
+})
+const isVendorModelInfo = isShape({ id: isString, contextLength: isOptional(isNumber) })
+const isConversationSummary = isShape({
+  id: isString,
+  title: isString,
+  updateTime: isNumber,
+  messageCount: isNumber,
+})
+
+/**
+ * 各 B2F 消息的数据校验规则
+ */
+const B2F_VALIDATORS: Record<B2FMessageType, Validator> = {
+  [OP.HICODE_ASK_QUESTION_B2F_RES]: isShape({
+    chatId: isString,
+    text: isOptional(isString),
+    answer: isOptional(isString),
+    sessionId: isOptional(isString),
+    conversationId: isOptional(isString),
+    usage: isOptional(isUsage),
+  }),
+  [OP.HICODE_STOP_ANSWER_B2F_RES]: isShape({ chatId: isString, stopped: isBoolean }),
+  [OP.HICODE_ATTACH_FILES_B2F_RES]: isShape({ files: isArrayOf(isAttachedFile) }),
+  [OP.HICODE_SEARCH_MENTIONS_B2F_RES]: isShape({ items: isArrayOf(isMentionItem) }),
+  [OP.HICODE_GET_CODE_TARGET_B2F_RES]: isShape({
+    filePath: isString,
+    languageId: isOptional(isString),
+    startLine: isNumber,
+    endLine: isNumber,
+    content: isString,
+    version: isOptional(isNumber),
+  }),
+  [OP.HICODE_APPLY_CODE_EDIT_B2F_RES]: isShape({
+    applied: isBoolean,
+    message: isOptional(isString),
+  }),
+  [OP.HICODE_GET_FILE_STATUS_B2F_RES]: isShape({ files: isArrayOf(isFileStatus) }),
+  [OP.HICODE_APPLY_CHANGE_SET_B2F_RES]: isShape({
+    results: isArrayOf(isFileChangeResult),
+    undoId: isOptional(isString),
+  }),
+  [OP.HICODE_UNDO_CHANGE_SET_B2F_RES]: isShape({
+    undone: isBoolean,
+    message: isOptional(isString),
+  }),
+  [OP.HICODE_CHAT_WITH_STREAM_B2F]: isAny,
+  [OP.HICODE_GET_MODELS_B2F_RES]: isShape({
+    currModel: isOptional(isString),
+    modelOptions: isOptional(isArrayOf(isModel)),
+  }),
+  [OP.HICODE_REFRESH_MODELS_B2F_RES]: isShape({
+    type: isString,
+    models: isOptional(isArrayOf(isModel)),
+  }),
+  [OP.HICODE_TEST_MODEL_B2F_RES]: isShape({
+    success: isBoolean,
+    latency: isOptional(isNumber),
+    errorType: isOptional(isString),
+    message: isOptional(isString),
+    modelInfo: isOptional(isVendorModelInfo),
+  }),
+  [OP.HICODE_LIST_VENDOR_MODELS_B2F_RES]: isShape({ models: isArrayOf(isVendorModelInfo) }),
+  [OP.HICODE_ERROR_B2F]: isShape({
+    operationType: isOptional(isString),
+    error: isOptional(isString),
+  }),
+  [OP.HICODE_NEW_CONVERSATION]: isAny,
+  [OP.HICODE_SELECTION_CHANGE]: isShape({
+    selectCode: isOptional(isString),
+    filePath: isOptional(isString),
+  }),
+  [OP.HICODE_OPEN_HISTORY]: isAny,
+  [OP.HICODE_GET_HIS_CHAT_BY_ID_B2F_RES]: isOptional(isArrayOf(isChatMessage)),
+  [OP.HICODE_LOGIN_B2F_RES]: isShape({ status: isBoolean, message: isOptional(isString) }),
+  [OP.HICODE_GET_SETTINGS_B2F_RES]: isShape({
+    modelOptions: isOptional(isArrayOf(isModel)),
+    prompts: isOptional(isArrayOf(isPromptData)),
+    specifications: isOptional(isArrayOf(isSpecificationData)),
+  }),
+  [OP.HICODE_GET_SPECIFICATION_CONTEXT_B2F_RES]: isShape({
+    activeFilePath: isOptional(isString),
+    systemPrompt: isString,
+    specifications: isOptional(isArrayOf(isSpecificationData)),
+  }),
+  [OP.HICODE_REFRESH_WORKSPACE_CONFIG_B2F_RES]: isShape({
+    configPath: isOptional(isString),
+    prompts: isArrayOf(isPromptData),
+    specifications: isArrayOf(isSpecificationData),
+    error: isOptional(isString),
+  }),
+  [OP.HICODE_GET_PROMPTS_B2F_RES]: isShape({
+    sysPrompts: isOptional(isArrayOf(isPromptItem)),
+    userPrompts: isOptional(isArrayOf(isPromptItem)),
+  }),
+  [OP.HICODE_SYS_PROMPT_B2F_RES]: isShape({
+    question: isString,
+    chatId: isString,
+    sessionId: isOptional(isString),
+    parentChatId: isOptional(isString),
+  }),
+  [OP.HICODE_USER_PROMPT_B2F_RES]: isShape({
+    question: isString,
+    chatId: isString,
+    sessionId: isOptional(isString),
+    parentChatId: isOptional(isString),
+  }),
+  [OP.HICODE_REFRESH_USER_PROMPTS_B2F_RES]: isShape({
+    type: isString,
+    prompts: isOptional(isArrayOf(isPromptData)),
+    userPrompt: isOptional(isArrayOf(isPromptData)),
+  }),
+  [OP.HICODE_REFRESH_SPECIFICATIONS_B2F_RES]: isShape({
+    type: isString,
+    specifications: isOptional(isArrayOf(isSpecificationData)),
+  }),
+  [OP.HICODE_SHOW_MESSAGE_B2F]: isShape({ type: isString, message: isString }),
+  [OP.HICODE_GET_LAST_VERSION_B2F]: isAny,
+  [OP.HICODE_GET_HISTORY_B2F_RES]: isShape({
+    items: isArrayOf(isConversationSummary),
+    total: isNumber,
+    page: isNumber,
+    pageSize: isNumber,
+  }),
+  [OP.HICODE_REFRESH_HISTORY_B2F_RES]: isShape({ type: isString, conversationId: isString }),
+}
+
+/**
+ * F2B 消息类型集合
+ * 浏览器调试时前端发出的消息会回到自身窗口，需要识别并忽略
+ */
+const F2B_MESSAGE_TYPES = new Set<string>(Object.keys(F2B_MESSAGES))
+
+/**
+ * 判断是否为已注册的 B2F 消息类型
+ */
+export const isB2FMessageType = (message: string): message is B2FMessageType => {
+  return Object.prototype.hasOwnProperty.call(B2F_VALIDATORS, message)
+}
+
+/**
+ * 校验接收到的消息
+ *
+ * @param raw window message 事件的 data
+ * @returns 校验通过的消息；非 HiCode 消息、前端自身消息或格式错误时返回 null
+ */
+export const validateIncomingMessage = (raw: unknown): B2FMessage | null => {
+  if (!isRecord(raw) || typeof raw.message !== 'string') {
+    return null
+  }
+
+  const { message, data } = raw
+  if (!isB2FMessageType(message)) {
+    // 同名的请求/响应消息（如 getPrompts）已作为 B2F 处理，这里只剩纯 F2B 消息
+    if (!F2B_MESSAGE_TYPES.has(message)) {
+      console.warn('未注册的消息类型，已丢弃:', message, raw)
+    }
+    return null
+  }
+
+  if (!B2F_VALIDATORS[message](data)) {
+    console.error('消息数据格式错误，已丢弃:', message, data)
+    return null
+  }
+
+  return raw as B2FMessage
+}
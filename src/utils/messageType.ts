@@ -16,6 +16,54 @@ export const HICODE_ASK_QUESTION_F2B_REQ = 'hicode_ask_question_f2b_req'
 /** 插件端响应，后端响应问答请求 */
 export const HICODE_ASK_QUESTION_B2F_RES = 'hicode_ask_question_b2f_res'
 
+/** 前端请求，发送用户问题（旧协议） */
+export const HICODE_SEND_MESSAGE_F2B_REQ = 'sendMessage'
+
+/** 前端通知，回答接收完成（旧协议） */
+export const HICODE_FINISHED_CHAT_F2B = 'finishedChat'
+
+/** 前端请求，重新回答问题（旧协议） */
+export const HICODE_REANSWER_F2B_REQ = 'reanswer'
+
+/** 前端通知，复制回答内容（旧协议） */
+export const HICODE_COPY_ANSWER_F2B = 'copyAnswer'
+
+/** 前端通知，用户在消息区域复制了内容（旧协议） */
+export const HICODE_SELECT_ANSWER_F2B = 'selectAnswer'
+
+/** 前端请求，与编辑器代码比较（旧协议，由插件端打开比较视图） */
+export const HICODE_COMPARE_ANSWER_F2B_REQ = 'compareAnswer'
+
+/** 前端通知，在系统浏览器中打开回答中的链接 */
+export const HICODE_OPEN_LINK_F2B = 'hicode_open_link_f2b'
+
+/** 前端请求，添加附件：指定路径时读取这些文件，否则打开工作区文件选择框 */
+export const HICODE_ATTACH_FILES_F2B_REQ = 'hicode_attach_files_f2b_req'
+
+/** 插件端响应，返回选中的附件 */
+export const HICODE_ATTACH_FILES_B2F_RES = 'hicode_attach_files_b2f_res'
+
+/** 前端请求，搜索可 @引用的上下文（打开的文件、工作区文件、符号、Git 变更、终端、问题） */
+export const HICODE_SEARCH_MENTIONS_F2B_REQ = 'hicode_search_mentions_f2b_req'
+
+/** 插件端响应，返回匹配的上下文项 */
+export const HICODE_SEARCH_MENTIONS_B2F_RES = 'hicode_search_mentions_b2f_res'
+
+/** 前端请求，停止生成回答 */
+export const HICODE_STOP_ANSWER_F2B_REQ = 'hicode_stop_answer_f2b_req'
+
+/** 插件端响应，确认已停止生成回答 */
+export const HICODE_STOP_ANSWER_B2F_RES = 'hicode_stop_answer_b2f_res'
+
+/** 插件端通知，流式聊天消息（旧协议） */
+export const HICODE_CHAT_WITH_STREAM_B2F = 'chatWithStream'
+
+/** 插件端通知，显示消息提示（旧协议） */
+export const HICODE_SHOW_MESSAGE_B2F = 'showMessage'
+
+/** 插件端通知，版本更新检查结果（旧协议） */
+export const HICODE_GET_LAST_VERSION_B2F = 'getLastVersion'
+
 // ========== 模型配置相关消息 ==========
 
 /** 前端请求，获取模型列表 */
@@ -27,6 +75,18 @@ export const HICODE_GET_MODELS_B2F_RES = 'hicode_get_models_b2f_res'
 /** 前端请求，切换当前模型 */
 export const HICODE_CHANGE_MODEL_F2B_REQ = 'hicode_change_model_f2b_req'
 
+/** 前端请求，测试模型连接（使用表单中的配置发送一次最小请求） */
+export const HICODE_TEST_MODEL_F2B_REQ = 'hicode_test_model_f2b_req'
+
+/** 插件端响应，测试连接结果 */
+export const HICODE_TEST_MODEL_B2F_RES = 'hicode_test_model_b2f_res'
+
+/** 前端请求，从厂商接口获取可用模型列表 */
+export const HICODE_LIST_VENDOR_MODELS_F2B_REQ = 'hicode_list_vendor_models_f2b_req'
+
+/** 插件端响应，厂商的可用模型列表 */
+export const HICODE_LIST_VENDOR_MODELS_B2F_RES = 'hicode_list_vendor_models_b2f_res'
+
 /** 前端请求，新增模型配置 */
 export const HICODE_ADD_MODEL_F2B_REQ = 'hicode_add_model_f2b_req'
 
@@ -36,6 +96,12 @@ export const HICODE_EDIT_MODEL_F2B_REQ = 'hicode_edit_model_f2b_req'
 /** 前端请求，删除模型配置 */
 export const HICODE_DELETE_MODEL_F2B_REQ = 'hicode_delete_model_f2b_req'
 
+/** 前端请求，保存导入的模型配置（前端已解析文件并处理冲突） */
+export const HICODE_SAVE_IMPORTED_MODELS_F2B_REQ = 'hicode_save_imported_models_f2b_req'
+
+/** 前端请求，导出模型配置（不含 API Key） */
+export const HICODE_EXPORT_MODELS_F2B_REQ = 'hicode_export_models_f2b_req'
+
 /** 插件端响应，刷新模型列表（新增/编辑/删除后） */
 export const HICODE_REFRESH_MODELS_B2F_RES = 'hicode_refresh_models_b2f_res'
 
@@ -63,14 +129,68 @@ export const HICODE_CLEAR_SELECTION = 'hicode_clear_selection'
 
 // ========== 代码操作相关消息 ==========
 
-/** 前端请求，插入代码到编辑器（前端到插件端） */
+/** 前端请求，插入代码到编辑器光标处（前端到插件端，现改为审阅差异后应用） */
 export const HICODE_INSERT_CODE_F2B_REQ = 'hicode_insert_code_f2b_req'
 
+/** 前端请求，获取回答中代码要比较或插入的编辑器目标范围 */
+export const HICODE_GET_CODE_TARGET_F2B_REQ = 'hicode_get_code_target_f2b_req'
+
+/** 插件端响应，编辑器目标范围及其代码 */
+export const HICODE_GET_CODE_TARGET_B2F_RES = 'hicode_get_code_target_b2f_res'
+
+/** 前端请求，用审阅后合并的代码替换编辑器目标范围 */
+export const HICODE_APPLY_CODE_EDIT_F2B_REQ = 'hicode_apply_code_edit_f2b_req'
+
+/** 插件端响应，代码修改的应用结果 */
+export const HICODE_APPLY_CODE_EDIT_B2F_RES = 'hicode_apply_code_edit_b2f_res'
+
+/** 前端请求，查询回答中标注的文件是否已存在（区分新建和修改） */
+export const HICODE_GET_FILE_STATUS_F2B_REQ = 'hicode_get_file_status_f2b_req'
+
+/** 插件端响应，各文件是否已存在 */
+export const HICODE_GET_FILE_STATUS_B2F_RES = 'hicode_get_file_status_b2f_res'
+
+/** 前端请求，将回答中的多文件修改一次性写入工作区 */
+export const HICODE_APPLY_CHANGE_SET_F2B_REQ = 'hicode_apply_change_set_f2b_req'
+
+/** 插件端响应，各文件的写入结果及撤销标识 */
+export const HICODE_APPLY_CHANGE_SET_B2F_RES = 'hicode_apply_change_set_b2f_res'
+
+/** 前端请求，撤销一次多文件修改 */
+export const HICODE_UNDO_CHANGE_SET_F2B_REQ = 'hicode_undo_change_set_f2b_req'
+
+/** 插件端响应，撤销结果 */
+export const HICODE_UNDO_CHANGE_SET_B2F_RES = 'hicode_undo_change_set_b2f_res'
+
 // ========== 历史记录相关消息 ==========
 
 /** 前端请求，打开历史记录 */
 export const HICODE_OPEN_HISTORY = 'hicode_open_history'
 
+/** 插件端响应，恢复历史会话的聊天记录（旧协议） */
+export const HICODE_GET_HIS_CHAT_BY_ID_B2F_RES = 'getHisChatById'
+
+/** 前端请求，分页获取历史会话列表（支持关键字搜索） */
+export const HICODE_GET_HISTORY_F2B_REQ = 'hicode_get_history_f2b_req'
+
+/** 插件端响应，历史会话列表 */
+export const HICODE_GET_HISTORY_B2F_RES = 'hicode_get_history_b2f_res'
+
+/** 前端请求，打开历史会话（插件端以 getHisChatById 返回聊天记录） */
+export const HICODE_OPEN_HISTORY_CHAT_F2B_REQ = 'hicode_open_history_chat_f2b_req'
+
+/** 前端请求，重命名历史会话 */
+export const HICODE_RENAME_HISTORY_F2B_REQ = 'hicode_rename_history_f2b_req'
+
+/** 前端请求，删除历史会话 */
+export const HICODE_DELETE_HISTORY_F2B_REQ = 'hicode_delete_history_f2b_req'
+
+/** 前端请求，置顶/取消置顶历史会话 */
+export const HICODE_PIN_HISTORY_F2B_REQ = 'hicode_pin_history_f2b_req'
+
+/** 插件端响应，历史会话变更（重命名/删除/置顶后） */
+export const HICODE_REFRESH_HISTORY_B2F_RES = 'hicode_refresh_history_b2f_res'
+
 // ========== 登录认证相关消息 ==========
 
 /** 前端请求，域账号登录认证 */
@@ -94,6 +214,30 @@ export const HICODE_CHANGE_COMPLETE_F2B_REQ = 'hicode_change_complete_f2b_req'
 
 // ========== Prompt 模板相关消息 ==========
 
+/** 前端请求，获取聊天页面的模板列表（旧协议） */
+export const HICODE_GET_PROMPTS_F2B_REQ = 'getPrompts'
+
+/** 插件端响应，聊天页面的模板列表（旧协议，与请求同名） */
+export const HICODE_GET_PROMPTS_B2F_RES = 'getPrompts'
+
+/** 前端请求，使用系统模板提问（旧协议） */
+export const HICODE_SYS_PROMPT_F2B_REQ = 'sysPrompt'
+
+/** 插件端响应，系统模板生成的问题（旧协议，与请求同名） */
+export const HICODE_SYS_PROMPT_B2F_RES = 'sysPrompt'
+
+/** 前端请求，使用用户模板提问（旧协议） */
+export const HICODE_USER_PROMPT_F2B_REQ = 'userPrompt'
+
+/** 插件端响应，用户模板生成的问题（旧协议，与请求同名） */
+export const HICODE_USER_PROMPT_B2F_RES = 'userPrompt'
+
+/** 前端请求，导入用户 Prompt 模板（旧协议，由插件端解析文件） */
+export const HICODE_IMPORT_PROMPTS_F2B_REQ = 'importPrompts'
+
+/** 前端请求，导出用户 Prompt 模板（旧协议） */
+export const HICODE_EXPORT_PROMPTS_F2B_REQ = 'exportPrompts'
+
 /** 前端请求，新增用户 Prompt 模板 */
 export const HICODE_ADD_USER_PROMPT_F2B_REQ = 'hicode_add_user_prompt_f2b_req'
 
@@ -103,6 +247,9 @@ export const HICODE_EDIT_USER_PROMPT_F2B_REQ = 'hicode_edit_user_prompt_f2b_req'
 /** 前端请求，删除用户 Prompt 模板 */
 export const HICODE_DELETE_USER_PROMPT_F2B_REQ = 'hicode_delete_user_prompt_f2b_req'
 
+/** 前端请求，保存导入的用户 Prompt 模板（前端已解析文件并处理冲突） */
+export const HICODE_SAVE_IMPORTED_PROMPTS_F2B_REQ = 'hicode_save_imported_prompts_f2b_req'
+
 /** 插件端响应，刷新用户 Prompt 模板列表 */
 export const HICODE_REFRESH_USER_PROMPTS_B2F_RES = 'hicode_refresh_user_prompts_b2f_res'
 
@@ -117,6 +264,32 @@ export const HICODE_EDIT_SPECIFICATION_F2B_REQ = 'hicode_edit_specification_f2b_
 /** 前端请求，删除附加规范 */
 export const HICODE_DELETE_SPECIFICATION_F2B_REQ = 'hicode_delete_specification_f2b_req'
 
+/** 前端请求，保存导入的附加规范（前端已解析文件并处理冲突） */
+export const HICODE_SAVE_IMPORTED_SPECIFICATIONS_F2B_REQ =
+  'hicode_save_imported_specifications_f2b_req'
+
 /** 插件端响应，刷新附加规范列表 */
 export const HICODE_REFRESH_SPECIFICATIONS_B2F_RES = 'hicode_refresh_specifications_b2f_res'
 
+/** 前端请求，导入附加规范（旧协议，由插件端解析文件） */
+export const HICODE_IMPORT_SPECIFICATIONS_F2B_REQ = 'importSpecifications'
+
+/** 前端请求，导出附加规范（旧协议） */
+export const HICODE_EXPORT_SPECIFICATIONS_F2B_REQ = 'exportSpecifications'
+
+/** 前端请求，获取附加规范的上下文（当前文件、基础系统提示词、附加规范），用于测试规范和估算用量 */
+export const HICODE_GET_SPECIFICATION_CONTEXT_F2B_REQ = 'hicode_get_specification_context_f2b_req'
+
+/** 插件端响应，附加规范的上下文 */
+export const HICODE_GET_SPECIFICATION_CONTEXT_B2F_RES = 'hicode_get_specification_context_b2f_res'
+
+// ========== 工作区配置相关消息 ==========
+
+/** 前端请求，读取工作区配置文件中的 Prompt 模板和附加规范 */
+export const HICODE_GET_WORKSPACE_CONFIG_F2B_REQ = 'hicode_get_workspace_config_f2b_req'
+
+/** 插件端响应，工作区配置（配置文件在外部修改后也会主动推送） */
+export const HICODE_REFRESH_WORKSPACE_CONFIG_B2F_RES = 'hicode_refresh_workspace_config_b2f_res'
+
+/** 前端请求，在编辑器中打开工作区配置文件 */
+export const HICODE_OPEN_WORKSPACE_CONFIG_F2B = 'hicode_open_workspace_config_f2b'
@@ -0,0 +1,283 @@
+/**
+ * 模板的模型参数（modelParams）
+ * 模型参数以 JSON 对象字符串保存，按模型厂商的参数定义校验：
+ * 通用参数（temperature、top_p、max_tokens、stop）和各厂商的扩展参数，
+ * 未定义的参数原样保留，由插件端传给模型
+ */
+
+/**
+ * 参数类型：number-数值, integer-整数, boolean-布尔值, stringList-字符串列表
+ */
+export type ModelParamType = 'number' | 'integer' | 'boolean' | 'stringList'
+
+/**
+ * 参数定义
+ */
+export interface ModelParamField {
+  /** 参数名（JSON 中的键） */
+  key: string
+  /** 显示名称 */
+  label: string
+  /** 参数类型 */
+  type: ModelParamType
+  /** 说明 */
+  description?: string
+  /** 最小值（数值类型） */
+  min?: number
+  /** 最大值（数值类型） */
+  max?: number
+  /** 步长（数值类型） */
+  step?: number
+  /** 最多条数（字符串列表） */
+  maxItems?: number
+}
+
+/**
+ * 参数问题
+ */
+export interface ModelParamIssue {
+  /** 参数名，为空表示整体的问题（如 JSON 格式错误） */
+  key?: string
+  /** 级别：error-错误（无法保存）, warning-提示 */
+  level: 'error' | 'warning'
+  message: string
+}
+
+/**
+ * 解析结果
+ */
+export interface ParsedModelParams {
+  /** 参数对象，JSON 格式错误时为 null */
+  params: Record<string, unknown> | null
+  /** JSON 格式错误 */
+  error?: string
+}
+
+/** 模型参数对象 */
+export type ModelParams = Record<string, unknown>
+
+/** 通用参数 */
+const COMMON_FIELDS: ModelParamField[] = [
+  {
+    key: 'temperature',
+    label: '温度',
+    type: 'number',
+    description: '采样温度，越高回答越随机',
+    min: 0,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    key: 'top_p',
+    label: 'Top P',
+    type: 'number',
+    description: '核采样概率阈值',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  {
+    key: 'max_tokens',
+    label: '最大输出Token',
+    type: 'integer',
+    description: '单次回答最多生成的 Token 数',
+    min: 1,
+    max: 1000000,
+    step: 256,
+  },
+  {
+    key: 'stop',
+    label: '停止词',
+    type: 'stringList',
+    description: '生成到这些文本时停止',
+  },
+]
+
+/** 存在惩罚和频率惩罚（OpenAI 兼容接口） */
+const PENALTY_FIELDS: ModelParamField[] = [
+  {
+    key: 'presence_penalty',
+    label: '存在惩罚',
+    type: 'number',
+    description: '正值鼓励谈论新话题',
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    key: 'frequency_penalty',
+    label: '频率惩罚',
+    type: 'number',
+    description: '正值减少重复的内容',
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+]
+
+/** 随机种子 */
+const SEED_FIELD: ModelParamField = {
+  key: 'seed',
+  label: '随机种子',
+  type: 'integer',
+  description: '相同种子和参数时尽量生成相同的回答',
+  min: 0,
+}
+
+/**
+ * 覆盖通用参数的部分定义
+ */
+const withCommon = (overrides: Record<string, Partial<ModelParamField>>): ModelParamField[] =>
+  COMMON_FIELDS.map((field) => ({ ...field, ...overrides[field.key] }))
+
+/** 各厂商的参数定义 */
+const VENDOR_FIELDS: Record<string, ModelParamField[]> = {
+  zhipuai: [
+    ...withCommon({ temperature: { max: 1 }, stop: { maxItems: 1 } }),
+    {
+      key: 'do_sample',
+      label: '启用采样',
+      type: 'boolean',
+      description: '关闭时忽略温度和 Top P',
+    },
+  ],
+  deepseek: [...withCommon({ stop: { maxItems: 16 } }), ...PENALTY_FIELDS],
+  openai: [...withCommon({ stop: { maxItems: 4 } }), ...PENALTY_FIELDS, SEED_FIELD],
+  qwen: [
+    ...withCommon({ temperature: { max: 1.99 } }),
+    {
+      key: 'top_k',
+      label: 'Top K',
+      type: 'integer',
+      description: '采样候选集的大小',
+      min: 1,
+      max: 100,
+    },
+    {
+      key: 'repetition_penalty',
+      label: '重复惩罚',
+      type: 'number',
+      description: '大于 1 时减少重复的内容',
+      min: 0,
+      step: 0.05,
+    },
+    {
+      key: 'enable_search',
+      label: '联网搜索',
+      type: 'boolean',
+    },
+    SEED_FIELD,
+  ],
+}
+
+/**
+ * 获取厂商的参数定义，未知厂商（或未指定模型）只使用通用参数
+ */
+export const getModelParamFields = (vendor?: string): ModelParamField[] =>
+  (vendor && VENDOR_FIELDS[vendor]) || COMMON_FIELDS
+
+/**
+ * 将 JSON.parse 错误中的位置转换为行列号
+ */
+const formatJsonError = (text: string, error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error)
+  const position = /position (\d+)/.exec(message)?.[1]
+  if (position === undefined) return `JSON 格式错误：${message}`
+
+  const before = text.slice(0, Number(position))
+  const line = before.split('\n').length
+  const column = Number(position) - before.lastIndexOf('\n')
+  return `JSON 格式错误（第 ${line} 行第 ${column} 列）：${message}`
+}
+
+/**
+ * 解析模型参数字符串，空字符串视为没有参数
+ */
+export const parseModelParams = (text?: string): ParsedModelParams => {
+  if (!text?.trim()) return { params: {} }
+
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch (error) {
+    return { params: null, error: formatJsonError(text, error) }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { params: null, error: '模型参数必须是 JSON 对象，如 {"temperature": 0.7}' }
+  }
+  return { params: value as ModelParams }
+}
+
+/**
+ * 将参数对象序列化为字符串，没有参数时为空字符串
+ */
+export const stringifyModelParams = (params: ModelParams): string =>
+  Object.keys(params).length > 0 ? JSON.stringify(params, null, 2) : ''
+
+/**
+ * 校验单个参数的值
+ *
+ * @returns 错误说明，没有错误时返回空字符串
+ */
+const validateField = (field: ModelParamField, value: unknown): string => {
+  if (field.type === 'boolean') {
+    return typeof value === 'boolean' ? '' : '必须为 true 或 false'
+  }
+
+  if (field.type === 'stringList') {
+    const list = typeof value === 'string' ? [value] : value
+    if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+      return '必须为字符串或字符串数组'
+    }
+    if (field.maxItems !== undefined && list.length > field.maxItems) {
+      return `最多 ${field.maxItems} 个`
+    }
+    return ''
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return '必须为数值'
+  }
+  if (field.type === 'integer' && !Number.isInteger(value)) {
+    return '必须为整数'
+  }
+  if (field.min !== undefined && value < field.min) {
+    return `不能小于 ${field.min}`
+  }
+  if (field.max !== undefined && value > field.max) {
+    return `不能大于 ${field.max}`
+  }
+  return ''
+}
+
+/**
+ * 按厂商的参数定义校验模型参数
+ * 未定义的参数给出提示但不视为错误
+ */
+export const validateModelParams = (params: ModelParams, vendor?: string): ModelParamIssue[] => {
+  const fields = getModelParamFields(vendor)
+  const issues: ModelParamIssue[] = []
+  Object.entries(params).forEach(([key, value]) => {
+    const field = fields.find((item) => item.key === key)
+    if (!field) {
+      issues.push({ key, level: 'warning', message: `未知参数 ${key}，将原样传给模型` })
+      return
+    }
+    const message = validateField(field, value)
+    if (message) {
+      issues.push({ key, level: 'error', message: `${field.label}（${key}）${message}` })
+    }
+  })
+  return issues
+}
+
+/**
+ * 校验模型参数字符串
+ *
+ * @returns 错误说明，没有错误时返回空字符串
+ */
+export const getModelParamsError = (text: string | undefined, vendor?: string): string => {
+  const { params, error } = parseModelParams(text)
+  if (!params) return error ?? ''
+  return validateModelParams(params, vendor).find((issue) => issue.level === 'error')?.message ?? ''
+}
@@ -0,0 +1,87 @@
+/**
+ * 模型厂商
+ * 内置厂商由插件端按厂商默认配置调用；自定义厂商（内部网关、本地 Ollama/vLLM 等）
+ * 需要配置接口地址、认证方式、额外请求头和接口格式
+ */
+import type { ApiFormat, AuthStyle } from '@/types/settings'
+
+/** 自定义厂商 */
+export const CUSTOM_VENDOR = 'custom'
+
+/** 厂商选项 */
+export const VENDOR_OPTIONS = [
+  { label: '智谱AI', value: 'zhipuai' },
+  { label: 'DeepSeek', value: 'deepseek' },
+  { label: 'OpenAI', value: 'openai' },
+  { label: '阿里千问', value: 'qwen' },
+  { label: '自定义（OpenAI 兼容等）', value: CUSTOM_VENDOR },
+]
+
+/** 接口格式选项 */
+export const API_FORMAT_OPTIONS: Array<{ label: string; value: ApiFormat }> = [
+  { label: 'OpenAI Chat Completions', value: 'openai-chat' },
+  { label: 'Anthropic Messages', value: 'anthropic-messages' },
+  { label: 'Ollama', value: 'ollama' },
+]
+
+/** 认证方式选项 */
+export const AUTH_STYLE_OPTIONS: Array<{ label: string; value: AuthStyle }> = [
+  { label: 'Authorization: Bearer <API Key>', value: 'bearer' },
+  { label: '自定义请求头', value: 'header' },
+  { label: '不认证', value: 'none' },
+]
+
+/**
+ * 获取厂商名称，未知厂商返回原值
+ */
+export const getVendorLabel = (vendor: string): string =>
+  VENDOR_OPTIONS.find((option) => option.value === vendor)?.label || vendor || ''
+
+/**
+ * 额外请求头的一行
+ */
+export interface HeaderRow {
+  name: string
+  value: string
+}
+
+/** 请求头名称（RFC 7230 token） */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/
+
+/**
+ * 额外请求头转换为编辑用的行
+ */
+export const toHeaderRows = (headers?: Record<string, string>): HeaderRow[] =>
+  Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }))
+
+/**
+ * 编辑用的行转换为额外请求头，忽略名称为空的行
+ */
+export const fromHeaderRows = (rows: HeaderRow[]): Record<string, string> =>
+  Object.fromEntries(
+    rows.filter((row) => row.name.trim()).map((row) => [row.name.trim(), row.value])
+  )
+
+/**
+ * 校验额外请求头
+ *
+ * @returns 错误说明，没有错误时返回空字符串
+ */
+export const validateHeaderRows = (rows: HeaderRow[]): string => {
+  const names = new Set<string>()
+  for (const row of rows) {
+    const name = row.name.trim()
+    if (!name) {
+      if (row.value) return '请求头名称不能为空'
+      continue
+    }
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      return `请求头名称 ${name} 包含非法字符`
+    }
+    if (names.has(name.toLowerCase())) {
+      return `请求头 ${name} 重复`
+    }
+    names.add(name.toLowerCase())
+  }
+  return ''
+}
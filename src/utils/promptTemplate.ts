@@ -0,0 +1,114 @@
+/**
+ * 模板变量
+ * 模板中以 {{变量}} 声明变量：
+ * - {{selection}}、{{language}}、{{filePath}}：由聊天上下文（选中的代码）提供
+ * - {{input:说明}}：发送前由用户填写
+ * 兼容旧模板中引用代码的 ${SOURCE}（等同于 {{selection}}）
+ */
+
+/**
+ * 上下文变量名
+ */
+export type PromptContextName = 'selection' | 'language' | 'filePath'
+
+/**
+ * 模板变量
+ */
+export interface PromptVariable {
+  /** 模板中的原始写法（花括号内的文本），用作变量值的键 */
+  key: string
+  /** 变量类型：context-上下文变量, input-用户输入变量, unknown-无法识别的变量 */
+  type: 'context' | 'input' | 'unknown'
+  /** 显示名称（用户输入变量为冒号后的说明） */
+  label: string
+}
+
+/**
+ * 模板的上下文
+ */
+export type PromptContext = Record<PromptContextName, string>
+
+/** 上下文变量说明 */
+export const PROMPT_CONTEXT_LABELS: Record<PromptContextName, string> = {
+  selection: '选中的代码',
+  language: '代码语言',
+  filePath: '文件路径',
+}
+
+/** 预览模板使用的示例上下文 */
+export const SAMPLE_PROMPT_CONTEXT: PromptContext = {
+  selection: 'function sum(a, b) {\n  return a + b\n}',
+  language: 'javascript',
+  filePath: 'src/utils/math.js',
+}
+
+/** 模板变量：{{变量}} */
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g
+
+/** 旧模板中引用代码的写法 */
+const LEGACY_SOURCE = '${SOURCE}'
+
+/** 渲染时一次匹配旧写法和 {{变量}}，替换进来的值（如选中的代码）不会被再次替换 */
+const RENDER_PATTERN = /\$\{SOURCE\}|\{\{\s*([^{}]+?)\s*\}\}/g
+
+/** 用户输入变量前缀 */
+const INPUT_PREFIX = 'input:'
+
+/**
+ * 判断是否为上下文变量名
+ */
+const isContextName = (name: string): name is PromptContextName =>
+  Object.keys(PROMPT_CONTEXT_LABELS).includes(name)
+
+/**
+ * 解析单个变量
+ */
+const toVariable = (key: string): PromptVariable => {
+  if (isContextName(key)) {
+    return { key, type: 'context', label: PROMPT_CONTEXT_LABELS[key] }
+  }
+  if (key.startsWith(INPUT_PREFIX)) {
+    const label = key.slice(INPUT_PREFIX.length).trim()
+    return { key, type: label ? 'input' : 'unknown', label: label || key }
+  }
+  return { key, type: 'unknown', label: key }
+}
+
+/**
+ * 解析模板中声明的变量（按首次出现的顺序去重）
+ */
+export const parsePromptVariables = (template: string): PromptVariable[] => {
+  const variables = new Map<string, PromptVariable>()
+  if (template.includes(LEGACY_SOURCE)) {
+    variables.set('selection', toVariable('selection'))
+  }
+
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const key = match[1] as string
+    if (!variables.has(key)) {
+      variables.set(key, toVariable(key))
+    }
+  }
+  return Array.from(variables.values())
+}
+
+/**
+ * 判断模板是否需要选中的代码
+ * 没有声明任何变量的旧模板由插件端在末尾附加代码，同样需要
+ */
+export const requiresSelection = (template: string): boolean => {
+  const variables = parsePromptVariables(template)
+  return variables.length === 0 || variables.some((variable) => variable.key === 'selection')
+}
+
+/**
+ * 渲染模板，未提供值的变量保持原样
+ *
+ * @param values 变量值，键为变量的原始写法
+ */
+export const renderPrompt = (template: string, values: Record<string, string>): string =>
+  template.replace(RENDER_PATTERN, (raw, key: string | undefined) => {
+    // 没有变量名时为旧写法 ${SOURCE}
+    const name = key ?? 'selection'
+    return Object.prototype.hasOwnProperty.call(values, name) ? (values[name] as string) : raw
+  })
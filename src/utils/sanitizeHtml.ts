@@ -0,0 +1,168 @@
+/**
+ * HTML 净化
+ * 模型回答和用户问题中可能包含任意 HTML，渲染到 Webview 之前按白名单过滤：
+ * 只保留 Markdown 渲染需要的标签和属性，链接和图片只允许安全的协议
+ */
+
+/** 允许的标签 → 该标签额外允许的属性 */
+const ALLOWED_TAGS: Record<string, readonly string[]> = {
+  a: ['href', 'title'],
+  b: [],
+  blockquote: [],
+  br: [],
+  code: [],
+  del: [],
+  div: [],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'title'],
+  input: ['type', 'checked', 'disabled'],
+  kbd: [],
+  li: [],
+  ol: ['start'],
+  p: [],
+  pre: [],
+  s: [],
+  span: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['align'],
+  th: ['align'],
+  thead: [],
+  tr: [],
+  ul: [],
+}
+
+/** 所有标签都允许的属性（代码高亮依赖 class） */
+const GLOBAL_ATTRIBUTES = ['class']
+
+/** 连同内容一起移除的标签，其余不在白名单中的标签只保留内容 */
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'template',
+  'noscript',
+  'textarea',
+  'select',
+  'button',
+  'form',
+  'svg',
+  'math',
+  'link',
+  'meta',
+  'base',
+])
+
+/** 链接允许的协议 */
+const LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:'])
+
+/** 图片允许的协议（data: 只允许图片） */
+const IMAGE_PROTOCOLS = new Set(['http:', 'https:'])
+
+/**
+ * 判断链接地址是否安全（只允许绝对地址）
+ */
+export const isSafeLink = (url: string): boolean => {
+  try {
+    return LINK_PROTOCOLS.has(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 判断图片地址是否安全
+ */
+const isSafeImage = (url: string): boolean => {
+  if (/^data:image\/(png|jpe?g|gif|webp);/i.test(url)) return true
+  try {
+    return IMAGE_PROTOCOLS.has(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 过滤元素的属性
+ */
+const sanitizeAttributes = (element: Element, tagName: string): void => {
+  const allowed = ALLOWED_TAGS[tagName] ?? []
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const keep =
+      (GLOBAL_ATTRIBUTES.includes(name) || allowed.includes(name)) &&
+      !(name === 'href' && !isSafeLink(value)) &&
+      !(name === 'src' && !isSafeImage(value))
+    if (!keep) {
+      element.removeAttribute(name)
+    }
+  }
+
+  // 任务列表的勾选框只用于展示
+  if (tagName === 'input') {
+    element.setAttribute('disabled', '')
+  }
+}
+
+/**
+ * 递归净化子节点
+ */
+const sanitizeChildren = (parent: ParentNode): void => {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) continue
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      // 注释等节点直接移除
+      node.remove()
+      continue
+    }
+
+    const element = node as Element
+    const tagName = element.tagName.toLowerCase()
+    // input 只保留任务列表的勾选框
+    const isDropped =
+      DROPPED_TAGS.has(tagName) || (tagName === 'input' && element.getAttribute('type') !== 'checkbox')
+    if (isDropped) {
+      element.remove()
+      continue
+    }
+
+    sanitizeChildren(element)
+    if (tagName in ALLOWED_TAGS) {
+      sanitizeAttributes(element, tagName)
+    } else {
+      // 不在白名单中的标签只保留内容
+      element.replaceWith(...Array.from(element.childNodes))
+    }
+  }
+}
+
+/**
+ * 净化 HTML
+ * 在惰性的 template 中解析，解析过程不会执行脚本或加载资源
+ *
+ * @param html 待净化的 HTML（通常是 marked 的输出）
+ * @returns 净化后的文档片段，可直接插入 DOM
+ */
+export const sanitizeHtml = (html: string): DocumentFragment => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  sanitizeChildren(template.content)
+  return template.content
+}
@@ -0,0 +1,49 @@
+/**
+ * 密钥（API Key、密码）
+ * 密钥对前端只写：插件端只返回是否已保存和掩码提示，前端只在新增或重新输入时发送，
+ * 展示和导出都不包含密钥
+ */
+import type { ModelData } from '@/types/settings'
+
+/** 掩码提示保留的末尾字符数 */
+const VISIBLE_TAIL = 4
+
+/**
+ * 生成密钥的掩码提示（只保留末尾几位），如 ****abcd
+ */
+export const maskSecret = (secret: string): string => {
+  if (!secret) return ''
+  const tail = secret.length > VISIBLE_TAIL * 2 ? secret.slice(-VISIBLE_TAIL) : ''
+  return `****${tail}`
+}
+
+/**
+ * 去掉模型配置中的密钥（展示、导出），只保留是否已保存和掩码提示
+ * 兼容仍返回完整 API Key 的旧版本插件端：由前端生成掩码提示后丢弃
+ */
+export const stripModelSecrets = (model: ModelData): ModelData => {
+  const { apiKey, ...rest } = model
+  if (!apiKey) return rest
+  return { ...rest, hasApiKey: true, apiKeyHint: rest.apiKeyHint || maskSecret(apiKey) }
+}
+
+/** 可能包含密钥的请求头名称 */
+const SECRET_HEADER_PATTERN = /authorization|cookie|token|secret|key|password/i
+
+/**
+ * 生成导出用的模型配置：去掉 API Key 及其提示，清空可能包含密钥的额外请求头的值
+ */
+export const toExportModel = (model: ModelData): ModelData => {
+  const data: ModelData = { ...model }
+  delete data.apiKey
+  delete data.hasApiKey
+  delete data.apiKeyHint
+  if (!data.extraHeaders) return data
+  const extraHeaders = Object.fromEntries(
+    Object.entries(data.extraHeaders).map(([name, value]) => [
+      name,
+      SECRET_HEADER_PATTERN.test(name) ? '' : value,
+    ])
+  )
+  return { ...data, extraHeaders }
+}
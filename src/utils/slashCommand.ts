@@ -0,0 +1,112 @@
+/**
+ * 斜杠命令
+ * 在输入框开头输入 /命令 [参数]：内置命令（清空会话、切换模型、历史会话）
+ * 和由系统模板、用户模板生成的模板命令
+ */
+import type { PromptItem } from '@/types/chat'
+
+/**
+ * 命令类型：builtin-内置命令, system-系统模板, user-用户模板
+ */
+export type SlashCommandKind = 'builtin' | 'system' | 'user'
+
+/**
+ * 斜杠命令
+ */
+export interface SlashCommand {
+  /** 命令名（不含 /） */
+  name: string
+  /** 命令类型 */
+  kind: SlashCommandKind
+  /** 说明 */
+  description: string
+  /** 参数提示，为空表示不接受参数 */
+  argsHint?: string
+  /** 模板ID（模板命令使用） */
+  promptId?: string | number
+}
+
+/**
+ * 解析后的命令输入
+ */
+export interface ParsedSlashCommand {
+  /** 命令名（不含 /） */
+  name: string
+  /** 命令之后的参数（已去掉首尾空白） */
+  args: string
+}
+
+/** 内置命令 */
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  { name: 'clear', kind: 'builtin', description: '清空当前会话' },
+  { name: 'model', kind: 'builtin', description: '切换当前会话的模型', argsHint: '<模型名称>' },
+  { name: 'history', kind: 'builtin', description: '打开历史会话' },
+]
+
+/** 命令输入：开头的 / 加命令名，命令名与参数之间以空白分隔 */
+const COMMAND_PATTERN = /^\/([^\s/]+)(?:\s+([\s\S]*))?$/
+
+/**
+ * 将模板标题转换为命令名（空白替换为 -）
+ */
+const toCommandName = (title: string): string => title.trim().replace(/\s+/g, '-')
+
+/**
+ * 由模板生成命令，模板以命令后的参数或选中的代码作为输入
+ */
+const createPromptCommands = (prompts: PromptItem[], kind: SlashCommandKind): SlashCommand[] =>
+  prompts
+    .filter((prompt) => prompt.title.trim())
+    .map((prompt) => ({
+      name: toCommandName(prompt.title),
+      kind,
+      description: kind === 'system' ? '系统模板' : '用户模板',
+      argsHint: '[问题或代码，默认使用选中的代码]',
+      promptId: prompt.id,
+    }))
+
+/**
+ * 获取全部命令，同名时内置命令优先，其次系统模板
+ */
+export const getSlashCommands = (
+  sysPrompts: PromptItem[],
+  userPrompts: PromptItem[]
+): SlashCommand[] => {
+  const commands: SlashCommand[] = []
+  const names = new Set<string>()
+  const all = [
+    ...BUILTIN_COMMANDS,
+    ...createPromptCommands(sysPrompts, 'system'),
+    ...createPromptCommands(userPrompts, 'user'),
+  ]
+  for (const command of all) {
+    const key = command.name.toLowerCase()
+    if (!names.has(key)) {
+      names.add(key)
+      commands.push(command)
+    }
+  }
+  return commands
+}
+
+/**
+ * 解析命令输入
+ *
+ * @returns 不是命令输入时返回 null
+ */
+export const parseSlashCommand = (text: string): ParsedSlashCommand | null => {
+  const match = COMMAND_PATTERN.exec(text.trim())
+  if (!match) return null
+  return { name: match[1] as string, args: (match[2] ?? '').trim() }
+}
+
+/**
+ * 按命令名查找命令（不区分大小写）
+ */
+export const findSlashCommand = (
+  commands: SlashCommand[],
+  name: string
+): SlashCommand | undefined => {
+  const key = name.toLowerCase()
+  return commands.find((command) => command.name.toLowerCase() === key)
+}
@@ -0,0 +1,141 @@
+/**
+ * 附加规范规则
+ * 与插件端一致的规则语义，用于在设置页预览规范对哪些文件生效以及最终的系统提示词：
+ * - 启用的规范按列表顺序依次判断，正则表达式匹配文件路径（为空时匹配所有文件）即生效
+ * - append 在当前提示词后追加规范内容，replace 用规范内容替换当前提示词（包括之前追加的内容）
+ */
+import type { SpecificationData } from '@/types/settings'
+
+/** 追加内容与原提示词之间的分隔 */
+const APPEND_SEPARATOR = '\n\n'
+
+/** 常见正则表达式错误的说明（V8 的错误信息） */
+const REGEX_ERROR_MESSAGES: Record<string, string> = {
+  'Unterminated group': '括号 ( 没有闭合',
+  "Unmatched ')'": '多余的 )，没有对应的 (',
+  'Unterminated character class': '方括号 [ 没有闭合',
+  'Nothing to repeat': '量词（*、+、?、{n}）前没有可以重复的内容',
+  '\\ at end of pattern': '末尾的 \\ 没有转义任何字符',
+  'numbers out of order in {} quantifier': '{} 量词中的数字顺序颠倒',
+  'Range out of order in character class': '方括号中的字符范围顺序颠倒',
+  'Invalid group': '无效的分组写法',
+  'Lone quantifier brackets': '单独的 { 或 }，需要转义',
+}
+
+/**
+ * 规范与文件的匹配结果
+ */
+export interface RuleMatch {
+  spec: SpecificationData
+  /** 在规范列表中的序号（从 1 开始），即生效顺序 */
+  order: number
+  /** 匹配到的文本 */
+  matchedText: string
+  /** 是否最终生效（被之后的替换规范覆盖时为 false） */
+  effective: boolean
+  /** 覆盖此规范的替换规范名称 */
+  overriddenBy?: string
+}
+
+/**
+ * 推测正则表达式出错的位置（从 0 开始），无法确定时返回 -1
+ * 只检查括号、方括号、末尾转义和开头的量词，其余错误只给出原因
+ */
+const findRegexErrorIndex = (source: string): number => {
+  const groups: number[] = []
+  let classStart = -1
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index]
+    if (char === '\\') {
+      if (index === source.length - 1) return index
+      index++
+      continue
+    }
+    if (classStart >= 0) {
+      if (char === ']') classStart = -1
+      continue
+    }
+    const previous = source[index - 1]
+    if (char === '[') {
+      classStart = index
+    } else if (char === '(') {
+      groups.push(index)
+    } else if (char === ')') {
+      if (groups.length === 0) return index
+      groups.pop()
+    } else if (
+      (char === '*' || char === '+' || char === '?') &&
+      (index === 0 || previous === '|' || (previous === '(' && char !== '?'))
+    ) {
+      return index
+    }
+  }
+  if (classStart >= 0) return classStart
+  return groups.length > 0 ? groups[groups.length - 1]! : -1
+}
+
+/**
+ * 校验正则表达式，返回错误说明（包括出错位置），正确时返回空字符串
+ */
+export const getRegexError = (source: string): string => {
+  try {
+    new RegExp(source)
+    return ''
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    // 去掉错误信息中重复的表达式本身，如 Invalid regular expression: /(/: Unterminated group
+    const reason = message.replace(/^Invalid regular expression: \/.*\/\w*: /s, '')
+    const text = REGEX_ERROR_MESSAGES[reason] || reason
+    const index = findRegexErrorIndex(source)
+    return index >= 0 ? `第 ${index + 1} 个字符：${text}` : text
+  }
+}
+
+/**
+ * 获取规范在文件路径中匹配到的文本，不匹配（包括正则表达式有误）时返回 null
+ */
+export const matchSpecification = (spec: SpecificationData, filePath: string): string | null => {
+  if (!spec.regex) return ''
+  try {
+    return new RegExp(spec.regex).exec(filePath)?.[0] ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 按生效顺序列出对文件生效的启用规范，并标记被替换规范覆盖的规范
+ */
+export const resolveSpecifications = (
+  specs: SpecificationData[],
+  filePath: string
+): RuleMatch[] => {
+  const matches: RuleMatch[] = []
+  specs.forEach((spec, index) => {
+    if (!spec.state) return
+    const matchedText = matchSpecification(spec, filePath)
+    if (matchedText === null) return
+    if (spec.action === 'replace') {
+      matches.forEach((match) => {
+        if (match.effective) {
+          match.effective = false
+          match.overriddenBy = spec.name
+        }
+      })
+    }
+    matches.push({ spec, order: index + 1, matchedText, effective: true })
+  })
+  return matches
+}
+
+/**
+ * 生成应用规范后的系统提示词
+ *
+ * @param basePrompt 插件端的基础系统提示词
+ * @param matches 对文件生效的规范（resolveSpecifications 的结果）
+ */
+export const buildSystemPrompt = (basePrompt: string, matches: RuleMatch[]): string =>
+  matches.reduce((prompt, { spec }) => {
+    if (spec.action === 'replace') return spec.content
+    return prompt ? `${prompt}${APPEND_SEPARATOR}${spec.content}` : spec.content
+  }, basePrompt)
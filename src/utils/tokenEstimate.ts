@@ -0,0 +1,145 @@
+/**
+ * Token 估算
+ * 在前端粗略估算一次提问占用的上下文，用于在超出模型上下文上限前提示：
+ * - 中日韩字符按每字 1 个 Token，其余文本按每 4 个字符 1 个 Token
+ * - 图片按固定 Token 计算；@引用和只带路径的文件由插件端读取内容，无法估算
+ * 估算值与模型实际的分词结果存在偏差，只用于提示，不限制发送
+ */
+import type { ChatMessageData, Resource } from '@/types/chat'
+
+/** 中日韩字符（包括全角标点） */
+const CJK_PATTERN =
+  /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g
+
+/** 非中日韩文本每个 Token 的平均字符数 */
+const CHARS_PER_TOKEN = 4
+
+/** 每张图片的估算 Token */
+const IMAGE_TOKENS = 765
+
+/** 每条消息的角色、分隔等格式开销 */
+const MESSAGE_OVERHEAD = 4
+
+/** 用量达到上限的该比例时提示接近上限 */
+const WARNING_RATIO = 0.8
+
+/** 用量等级：normal-正常, warning-接近上限, over-超出上限 */
+export type BudgetLevel = 'normal' | 'warning' | 'over'
+
+/**
+ * 估算所需的提问内容
+ */
+export interface BudgetInput {
+  /** 问题文本（不含资源标签的占位符） */
+  question: string
+  /** 附带的资源 */
+  resources: Resource[]
+  /** 应用附加规范后的系统提示词 */
+  systemPrompt: string
+  /** 会话中当前分支的历史问答 */
+  history: ChatMessageData[]
+  /** 模型上下文上限，未配置时为 0 */
+  limit: number
+}
+
+/**
+ * 上下文用量估算结果
+ */
+export interface TokenBudget {
+  /** 问题 */
+  question: number
+  /** 资源 */
+  resources: number
+  /** 系统提示词与附加规范 */
+  specifications: number
+  /** 历史问答 */
+  history: number
+  /** 合计 */
+  total: number
+  /** 模型上下文上限，未配置时为 0 */
+  limit: number
+  /** 无法估算的资源数（@引用、由插件端读取的文件） */
+  unknownResources: number
+}
+
+/**
+ * 估算文本的 Token 数
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / CHARS_PER_TOKEN)
+}
+
+/**
+ * 估算资源的 Token 数，内容由插件端读取的资源返回 null
+ */
+export const estimateResourceTokens = (resource: Resource): number | null => {
+  switch (resource.type) {
+    case 'code':
+      return estimateTokens(resource.code || '')
+    case 'image':
+      return IMAGE_TOKENS
+    case 'file':
+      return resource.content ? estimateTokens(resource.content) : null
+    default:
+      return null
+  }
+}
+
+/**
+ * 估算历史问答的 Token 数（问题和回答各算一条消息）
+ */
+export const estimateHistoryTokens = (chats: ChatMessageData[]): number => {
+  let total = 0
+  chats.forEach((chat) => {
+    total += estimateTokens(chat.display_question || '')
+    total += estimateTokens(chat.display_answer || '') + MESSAGE_OVERHEAD * 2
+  })
+  return total
+}
+
+/**
+ * 估算一次提问的上下文用量
+ */
+export const estimateBudget = (input: BudgetInput): TokenBudget => {
+  let resources = 0
+  let unknownResources = 0
+  input.resources.forEach((resource) => {
+    const tokens = estimateResourceTokens(resource)
+    if (tokens === null) {
+      unknownResources++
+    } else {
+      resources += tokens
+    }
+  })
+  const question = estimateTokens(input.question) + MESSAGE_OVERHEAD
+  const specifications = input.systemPrompt
+    ? estimateTokens(input.systemPrompt) + MESSAGE_OVERHEAD
+    : 0
+  const history = estimateHistoryTokens(input.history)
+  return {
+    question,
+    resources,
+    specifications,
+    history,
+    total: question + resources + specifications + history,
+    limit: input.limit,
+    unknownResources,
+  }
+}
+
+/**
+ * 获取用量等级，未配置上限时始终为正常
+ */
+export const getBudgetLevel = (budget: TokenBudget): BudgetLevel => {
+  if (!budget.limit) return 'normal'
+  if (budget.total > budget.limit) return 'over'
+  return budget.total >= budget.limit * WARNING_RATIO ? 'warning' : 'normal'
+}
+
+/**
+ * 格式化 Token 数，如 1234 → 1.2k
+ */
+export const formatTokens = (count: number): string =>
+  count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count)
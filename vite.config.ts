@@ -26,6 +26,22 @@ function createHtmlEntryPlugin(mode: string): Plugin {
   }
 }
 
+// 生成的 HTML 中由插件端在加载 Webview 时替换的占位符
+// {{cspSource}}：webview.cspSource；{{nonce}}：每次加载生成的随机数，只有带此 nonce 的脚本可以执行
+const CSP_SOURCE_PLACEHOLDER = '{{cspSource}}'
+const NONCE_PLACEHOLDER = '{{nonce}}'
+
+// 内容安全策略：禁止内联脚本和 eval，图片只允许 https 和 data，链接由插件端打开
+// 样式允许内联（Element Plus 和 Vue 的 style 绑定依赖内联样式）
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src 'nonce-${NONCE_PLACEHOLDER}'`,
+  `style-src ${CSP_SOURCE_PLACEHOLDER} 'unsafe-inline'`,
+  `font-src ${CSP_SOURCE_PLACEHOLDER} data:`,
+  `img-src ${CSP_SOURCE_PLACEHOLDER} https: data:`,
+  `connect-src ${CSP_SOURCE_PLACEHOLDER}`,
+].join('; ')
+
 // 生成 HTML 文件的插件（用于生产构建）
 function createHtmlPlugin(mode: string, outDir: string): Plugin {
   let entryFileName = ''
@@ -51,6 +67,7 @@ function createHtmlPlugin(mode: string, outDir: string): Plugin {
 <html lang="">
   <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">
     <link rel="icon" href="/favicon.ico">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Vite App</title>
@@ -58,7 +75,7 @@ function createHtmlPlugin(mode: string, outDir: string): Plugin {
   </head>
   <body>
     <div id="app"></div>
-    <script type="module" crossorigin src="/${entryFileName}"></script>
+    <script type="module" crossorigin nonce="${NONCE_PLACEHOLDER}" src="/${entryFileName}"></script>
   </body>
 </html>`
         